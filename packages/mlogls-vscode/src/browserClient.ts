@@ -5,6 +5,7 @@ import {
   LanguageClient,
   LanguageClientOptions,
 } from "vscode-languageclient/browser";
+import { registerClientCommands } from "./commands";
 
 let client: LanguageClient;
 
@@ -32,6 +33,7 @@ export async function activate(context: ExtensionContext) {
   };
 
   client = new LanguageClient("mlogls", "mlogls", clientOptions, worker);
+  context.subscriptions.push(registerClientCommands(client));
 
   await client.start();
   console.log("lsp-web-extension-sample server is ready");
@@ -0,0 +1,26 @@
+import { Disposable, commands } from "vscode";
+import type {
+  BaseLanguageClient,
+  Location,
+  Position,
+} from "vscode-languageclient";
+
+/** Registers the client side commands used by the language server. */
+export function registerClientCommands(client: BaseLanguageClient): Disposable {
+  return Disposable.from(
+    // used by the label reference code lenses
+    commands.registerCommand(
+      "mlogls.showReferences",
+      (uri: string, position: Position, locations: Location[]) => {
+        const converter = client.protocol2CodeConverter;
+
+        return commands.executeCommand(
+          "editor.action.showReferences",
+          converter.asUri(uri),
+          converter.asPosition(position),
+          locations.map((location) => converter.asLocation(location))
+        );
+      }
+    )
+  );
+}
@@ -1,4 +1,22 @@
-import { ExtensionContext } from "vscode";
+import {
+  DebugAdapter,
+  DebugAdapterInlineImplementation,
+  DebugConfiguration,
+  DebugProtocolMessage,
+  EventEmitter,
+  ExtensionContext,
+  Uri,
+  WorkspaceFolder,
+  debug,
+  workspace,
+} from "vscode";
+import { isAbsolute, join } from "path";
+import {
+  startDebugAdapter,
+  type LaunchArguments,
+  type ProtocolMessage,
+} from "mlogls";
+import { loadConfigForFile } from "mlogls/node";
 
 import {
   LanguageClient,
@@ -6,6 +24,7 @@ import {
   ServerOptions,
   TransportKind,
 } from "vscode-languageclient/node";
+import { registerClientCommands } from "./commands";
 
 let client: LanguageClient;
 
@@ -40,10 +59,71 @@ export async function activate(context: ExtensionContext) {
   // Create the language client and start the client.
   client = new LanguageClient("mlogls", "mlogls", serverOptions, clientOptions);
 
+  context.subscriptions.push(
+    registerClientCommands(client),
+    debug.registerDebugAdapterDescriptorFactory("mlog", {
+      createDebugAdapterDescriptor() {
+        return new DebugAdapterInlineImplementation(new MlogDebugAdapter());
+      },
+    }),
+    debug.registerDebugConfigurationProvider("mlog", {
+      resolveDebugConfiguration(folder, config) {
+        return resolveLaunchPaths(folder, config);
+      },
+    })
+  );
+
   // Start the client. This will also launch the server
   await client.start();
 }
 
+/**
+ * Resolves the relative paths of a launch configuration against its workspace
+ * folder, since the debug adapter doesn't know where it was launched from.
+ */
+function resolveLaunchPaths(
+  folder: WorkspaceFolder | undefined,
+  config: DebugConfiguration
+) {
+  if (!folder) return config;
+
+  const args = config as DebugConfiguration & Partial<LaunchArguments>;
+  const resolve = (path: string) =>
+    isAbsolute(path) ? path : join(folder.uri.fsPath, path);
+
+  if (typeof args.program === "string") args.program = resolve(args.program);
+  if (typeof args.links === "string") args.links = resolve(args.links);
+
+  return args;
+}
+
+/** Runs the debug adapter in the extension host. */
+class MlogDebugAdapter implements DebugAdapter {
+  #emitter = new EventEmitter<DebugProtocolMessage>();
+  #adapter = startDebugAdapter({
+    sendMessage: (message) => this.#emitter.fire(message),
+    async readFile(path) {
+      // open documents may have unsaved changes
+      const document = await workspace.openTextDocument(Uri.file(path));
+      return document.getText();
+    },
+    loadConfig(path) {
+      return loadConfigForFile(Uri.file(path).toString());
+    },
+  });
+
+  onDidSendMessage = this.#emitter.event;
+
+  handleMessage(message: DebugProtocolMessage) {
+    this.#adapter.handleMessage(message as ProtocolMessage);
+  }
+
+  dispose() {
+    this.#adapter.dispose();
+    this.#emitter.dispose();
+  }
+}
+
 export function deactivate(): Thenable<void> | undefined {
   if (!client) {
     return undefined;
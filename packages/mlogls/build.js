@@ -23,7 +23,7 @@ const contexts = await Promise.all([
     platform: "node",
     logLevel: "info",
     sourcemap: isDev,
-    entryPoints: ["src/bin.ts"],
+    entryPoints: ["src/bin.ts", "src/node.ts"],
     target: "es2020",
     format: "esm",
   }),
@@ -1,7 +1,19 @@
-import { SyntaxNode } from "../parser/nodes";
+import { CommentLine, LabelDeclaration, SyntaxNode } from "../parser/nodes";
 import { SymbolTable } from "./symbol";
 import { getLogicalScopes, LogicalScope } from "./logical_scope";
 import { getSymbolTable } from "./symbol_resolution";
+import { ControlFlowGraph, getControlFlowGraph } from "./control_flow";
+import { CallGraph, getCallGraph } from "./call_graph";
+import { TypeTable, getTypeTable } from "./type_inference";
+import { MlogConfig, defaultConfig, getProcessorLimits } from "../config";
+import { isProcessorType, processorProfiles } from "./processor_profile";
+import {
+  HeaderDirective,
+  HeaderDirectiveKind,
+  findHeaderDirective,
+  getHeaderEnd,
+} from "./header_directives";
+import { isGameVersion } from "./game_version";
 
 /**
  * Contains and lazily computes data structures commonly used throughout the
@@ -10,12 +22,88 @@ import { getSymbolTable } from "./symbol_resolution";
 export class AnalysisUnit {
   #root?: LogicalScope;
   #symbolTable?: SymbolTable;
+  #controlFlowGraph?: ControlFlowGraph;
+  #callGraph?: CallGraph;
+  #typeTable?: TypeTable;
+  #processorDirective?: HeaderDirective | null;
+  #versionDirective?: HeaderDirective | null;
 
   constructor(
     public uri: string,
-    public nodes: SyntaxNode[]
+    public nodes: SyntaxNode[],
+    public config: MlogConfig = defaultConfig
   ) {}
 
+  /**
+   * Creates a unit with a different configuration. The analyses don't depend on
+   * the configuration, so they are shared with this unit.
+   */
+  withConfig(config: MlogConfig): AnalysisUnit {
+    const unit = new AnalysisUnit(this.uri, this.nodes, config);
+    unit.#root = this.#root;
+    unit.#symbolTable = this.#symbolTable;
+    unit.#controlFlowGraph = this.#controlFlowGraph;
+    unit.#callGraph = this.#callGraph;
+    unit.#typeTable = this.#typeTable;
+    unit.#processorDirective = this.#processorDirective;
+    unit.#versionDirective = this.#versionDirective;
+
+    return unit;
+  }
+
+  /**
+   * Creates a unit for an edited version of the nodes of this unit, where
+   * `removedCount` nodes starting at `start` were replaced by `addedCount`
+   * nodes. Only the analyses that don't depend on the edited nodes are shared
+   * with the new unit.
+   */
+  withEditedNodes(
+    nodes: SyntaxNode[],
+    start: number,
+    removedCount: number,
+    addedCount: number
+  ): AnalysisUnit {
+    const unit = new AnalysisUnit(this.uri, nodes, this.config);
+    const headerEnd = getHeaderEnd(this.nodes);
+
+    // header directives only depend on the comments before the first line of
+    // code, and the search stops at the first directive found
+    const isBeforeChange = (directive: HeaderDirective | null | undefined) =>
+      directive !== undefined && (directive?.nodeIndex ?? headerEnd) < start;
+
+    if (isBeforeChange(this.#processorDirective)) {
+      unit.#processorDirective = this.#processorDirective;
+    }
+
+    if (isBeforeChange(this.#versionDirective)) {
+      unit.#versionDirective = this.#versionDirective;
+    }
+
+    // the other analyses refer to nodes by their index
+    if (removedCount !== addedCount) return unit;
+
+    const removed = this.nodes.slice(start, start + removedCount);
+    const added = nodes.slice(start, start + addedCount);
+
+    // logical scopes only depend on the kind and position of the nodes
+    if (removed.every((node, i) => hasSameScopeShape(node, added[i]))) {
+      unit.#root = this.#root;
+    }
+
+    // the nodes after the edit are copies when they had to be moved, and the
+    // analyses below refer to them directly
+    const end = start + addedCount;
+    if (end < nodes.length && nodes[end] !== this.nodes[end]) return unit;
+    if (removed.some(affectsCode) || added.some(affectsCode)) return unit;
+
+    unit.#symbolTable = this.#symbolTable;
+    unit.#controlFlowGraph = this.#controlFlowGraph;
+    unit.#typeTable = this.#typeTable;
+    if (unit.#root) unit.#callGraph = this.#callGraph;
+
+    return unit;
+  }
+
   get rootScope() {
     return (this.#root ??= getLogicalScopes(this.nodes));
   }
@@ -23,4 +111,79 @@ export class AnalysisUnit {
   get symbolTable() {
     return (this.#symbolTable ??= getSymbolTable(this.nodes));
   }
+
+  get controlFlowGraph() {
+    return (this.#controlFlowGraph ??= getControlFlowGraph(this.nodes));
+  }
+
+  get callGraph() {
+    return (this.#callGraph ??= getCallGraph(this.nodes, this.rootScope));
+  }
+
+  get typeTable() {
+    return (this.#typeTable ??= getTypeTable(this.nodes, this.symbolTable));
+  }
+
+  get processorDirective() {
+    if (this.#processorDirective === undefined) {
+      this.#processorDirective =
+        findHeaderDirective(this.nodes, HeaderDirectiveKind.processor) ?? null;
+    }
+
+    return this.#processorDirective ?? undefined;
+  }
+
+  get versionDirective() {
+    if (this.#versionDirective === undefined) {
+      this.#versionDirective =
+        findHeaderDirective(this.nodes, HeaderDirectiveKind.version) ?? null;
+    }
+
+    return this.#versionDirective ?? undefined;
+  }
+
+  /**
+   * The profile of the processor that runs the code, set either by a `#
+   * mlogls-processor` directive or by the configuration.
+   */
+  get processor() {
+    const value = this.processorDirective?.value;
+    const type = isProcessorType(value) ? value : this.config.processor;
+
+    return processorProfiles[type];
+  }
+
+  /**
+   * The game version targeted by the code, set either by a `# mlogls-version`
+   * directive or by the configuration.
+   */
+  get version() {
+    const value = this.versionDirective?.value;
+    return isGameVersion(value) ? value : this.config.version;
+  }
+
+  get limits() {
+    return getProcessorLimits(this.config, this.processor);
+  }
+}
+
+/**
+ * Checks whether two nodes have the same effect on the logical scopes, which
+ * only depend on the kind of each node and on where it starts.
+ */
+function hasSameScopeShape(a: SyntaxNode, b: SyntaxNode) {
+  return (
+    a instanceof CommentLine === b instanceof CommentLine &&
+    a instanceof LabelDeclaration === b instanceof LabelDeclaration &&
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character
+  );
+}
+
+/**
+ * Checks whether a node is used by the symbol table, control flow graph, call
+ * graph or type table. Comments only matter when they annotate a variable.
+ */
+function affectsCode(node: SyntaxNode) {
+  return !(node instanceof CommentLine) || node.docAnnotation !== undefined;
 }
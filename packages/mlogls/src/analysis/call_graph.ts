@@ -0,0 +1,107 @@
+import {
+  CommentLine,
+  InstructionNode,
+  JumpInstruction,
+  LabelDeclaration,
+  SyntaxNode,
+} from "../parser/nodes";
+import { ParameterUsage } from "../parser/descriptors";
+import { TextToken } from "../parser/tokens";
+import { getCounterOffset, writesToCounter } from "./control_flow";
+import { LogicalScope, findInnermostScope } from "./logical_scope";
+
+/**
+ * A subroutine call written with the usual calling convention of mlog:
+ *
+ * ```mlog
+ * op add ret @counter 1
+ * jump subroutine always
+ * ```
+ *
+ * The subroutine then returns with `set @counter ret`.
+ */
+export interface SubroutineCall {
+  /** The innermost logical scope that contains the call. */
+  caller: LogicalScope;
+  /** The name of the label that is called. */
+  callee: string;
+  /** The variable that stores the return address. */
+  returnVariable: string;
+  /** The index of the `jump` instruction. */
+  nodeIndex: number;
+  /** The destination of the `jump` instruction. */
+  destination: TextToken;
+}
+
+export class CallGraph {
+  constructor(public calls: SubroutineCall[]) {}
+
+  /** Returns the calls made to a label. */
+  getIncomingCalls(label: string) {
+    return this.calls.filter((call) => call.callee === label);
+  }
+
+  /** Returns the calls made directly inside of a logical scope. */
+  getOutgoingCalls(scope: LogicalScope) {
+    return this.calls.filter((call) => call.caller === scope);
+  }
+}
+
+export function getCallGraph(
+  nodes: SyntaxNode[],
+  root: LogicalScope
+): CallGraph {
+  const calls: SubroutineCall[] = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (!(node instanceof InstructionNode)) continue;
+
+    // the return address must point to the
+    // instruction right after the jump
+    if (getCounterOffset(node) !== 1) continue;
+    if (writesToCounter(node)) continue;
+
+    const returnVariable = node.parameters.find(
+      (param) =>
+        param.usage === ParameterUsage.write && param.token.isIdentifier()
+    );
+    if (!returnVariable) continue;
+
+    const jumpIndex = findNextInstructionIndex(nodes, i);
+    const jump = nodes[jumpIndex];
+
+    if (!(jump instanceof JumpInstruction)) continue;
+    if (jump.data.$type !== "always") continue;
+
+    const { destination } = jump.data;
+    if (!destination?.isIdentifier()) continue;
+
+    calls.push({
+      caller: findInnermostScope(root, jumpIndex),
+      callee: destination.content,
+      returnVariable: returnVariable.token.content,
+      nodeIndex: jumpIndex,
+      destination,
+    });
+  }
+
+  return new CallGraph(calls);
+}
+
+/**
+ * Returns the index of the next instruction, skipping comments. Returns `-1` if
+ * there is a label before it, since the label could be the target of other
+ * jumps.
+ */
+function findNextInstructionIndex(nodes: SyntaxNode[], index: number) {
+  for (let i = index + 1; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node instanceof CommentLine) continue;
+    if (node instanceof LabelDeclaration) return -1;
+
+    return i;
+  }
+
+  return -1;
+}
@@ -0,0 +1,427 @@
+import { counterVar } from "../constants";
+import { ParameterUsage } from "../parser/descriptors";
+import {
+  EndInstruction,
+  InstructionNode,
+  JumpInstruction,
+  LabelDeclaration,
+  OpInstruction,
+  SetInstruction,
+  StopInstruction,
+  SyntaxNode,
+} from "../parser/nodes";
+import { TextToken } from "../parser/tokens";
+import { BitSet, ReadonlyBitSet } from "../util/bitset";
+
+export enum ControlFlowEdgeKind {
+  /** The execution continues on the next instruction. */
+  fallthrough,
+  /** A `jump` instruction, either conditional or unconditional. */
+  jump,
+  /**
+   * The processor goes back to address 0, either because the last instruction
+   * was executed or because of an `end` instruction.
+   */
+  wrapAround,
+  /** A write to `@counter` whose target is not known statically. */
+  indirect,
+}
+
+export interface ControlFlowEdge {
+  kind: ControlFlowEdgeKind;
+  source: BasicBlock;
+  target: BasicBlock;
+}
+
+export interface BasicBlock {
+  /** The index of this block in {@link ControlFlowGraph.blocks}. */
+  index: number;
+  /** The address of the first instruction of this block. */
+  start: number;
+  /** The address after the last instruction of this block. */
+  end: number;
+  successors: ControlFlowEdge[];
+  predecessors: ControlFlowEdge[];
+}
+
+/**
+ * The control flow graph of a program, built from the instructions of an
+ * analysis unit.
+ *
+ * Addresses refer to the position of an instruction in the compiled program,
+ * which is the same value used by numeric jumps and `@counter`.
+ */
+export class ControlFlowGraph {
+  #blockIndexes: number[];
+  #reachableBlocks?: BitSet;
+
+  constructor(
+    /** Basic blocks ordered by address. The first block is the entry point. */
+    public blocks: BasicBlock[],
+    /** Maps addresses to their instructions. */
+    public instructions: InstructionNode<unknown>[],
+    /** Maps addresses to the index of their syntax nodes. */
+    public nodeIndexes: number[]
+  ) {
+    this.#blockIndexes = new Array<number>(instructions.length);
+
+    for (const block of blocks) {
+      this.#blockIndexes.fill(block.index, block.start, block.end);
+    }
+  }
+
+  get entry(): BasicBlock | undefined {
+    return this.blocks[0];
+  }
+
+  get instructionCount() {
+    return this.instructions.length;
+  }
+
+  /** Returns the basic block that contains the instruction at `address`. */
+  getBlockAt(address: number): BasicBlock | undefined {
+    return this.blocks[this.#blockIndexes[address]];
+  }
+
+  /** The set of block indexes that can be reached from the entry point. */
+  get reachableBlocks(): ReadonlyBitSet {
+    return (this.#reachableBlocks ??= this.#findReachableBlocks());
+  }
+
+  isReachable(address: number) {
+    const block = this.getBlockAt(address);
+    if (!block) return false;
+
+    return this.reachableBlocks.get(block.index);
+  }
+
+  /**
+   * Returns the address of the instruction at the given syntax node index, or
+   * -1 if the node is not an instruction.
+   */
+  getAddressOf(nodeIndex: number) {
+    return binarySearch(this.nodeIndexes, nodeIndex);
+  }
+
+  #findReachableBlocks() {
+    const reachable = new BitSet(this.blocks.length);
+    const entry = this.entry;
+    if (!entry) return reachable;
+
+    const stack = [entry];
+    reachable.set(entry.index, true);
+
+    while (stack.length > 0) {
+      const block = stack.pop()!;
+
+      for (const { target } of block.successors) {
+        if (reachable.get(target.index)) continue;
+
+        reachable.set(target.index, true);
+        stack.push(target);
+      }
+    }
+
+    return reachable;
+  }
+}
+
+interface PendingEdge {
+  kind: ControlFlowEdgeKind;
+  target: number;
+}
+
+export function getControlFlowGraph(nodes: SyntaxNode[]): ControlFlowGraph {
+  const instructions: InstructionNode<unknown>[] = [];
+  const nodeIndexes: number[] = [];
+  const labelAddresses = new Map<string, number>();
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+
+    if (node instanceof LabelDeclaration) {
+      // the game reports duplicated labels as errors,
+      // so we just keep the first one like the rest of the server
+      if (!labelAddresses.has(node.name)) {
+        labelAddresses.set(node.name, instructions.length);
+      }
+      continue;
+    }
+
+    if (!(node instanceof InstructionNode)) continue;
+
+    instructions.push(node);
+    nodeIndexes.push(i);
+  }
+
+  const count = instructions.length;
+
+  if (count === 0) return new ControlFlowGraph([], instructions, nodeIndexes);
+
+  // the game resets the counter to 0 when it goes out of range
+  const normalize = (address: number) =>
+    address >= 0 && address < count ? Math.floor(address) : 0;
+
+  const returnAddresses = getReturnAddresses(instructions);
+  const edges: PendingEdge[][] = [];
+  const leaders = new Set<number>([0]);
+
+  for (let address = 0; address < count; address++) {
+    const node = instructions[address];
+    const next = normalize(address + 1);
+    const fallthroughKind =
+      address + 1 === count
+        ? ControlFlowEdgeKind.wrapAround
+        : ControlFlowEdgeKind.fallthrough;
+
+    const out: PendingEdge[] = [];
+    edges.push(out);
+
+    if (node instanceof JumpInstruction) {
+      const target = getJumpTarget(node, labelAddresses);
+
+      // jumps to undefined labels are ignored by the game
+      if (target !== undefined) {
+        out.push({
+          kind: ControlFlowEdgeKind.jump,
+          target: normalize(target),
+        });
+      }
+
+      if (target === undefined || node.data.$type !== "always") {
+        out.push({ kind: fallthroughKind, target: next });
+      }
+    } else if (node instanceof EndInstruction) {
+      out.push({ kind: ControlFlowEdgeKind.wrapAround, target: 0 });
+    } else if (node instanceof StopInstruction) {
+      // stop halts the processor, so there is nothing after it
+    } else if (writesToCounter(node)) {
+      for (const target of getCounterWriteTargets(
+        node,
+        address,
+        count,
+        returnAddresses
+      )) {
+        out.push({
+          kind: ControlFlowEdgeKind.indirect,
+          target: normalize(target),
+        });
+      }
+    } else {
+      out.push({ kind: fallthroughKind, target: next });
+      continue;
+    }
+
+    // the current instruction affects the control flow
+    // so it ends a basic block
+    leaders.add(next);
+    for (const edge of out) {
+      leaders.add(edge.target);
+    }
+  }
+
+  const starts = [...leaders].sort((a, b) => a - b);
+  const blocks: BasicBlock[] = starts.map((start, index) => ({
+    index,
+    start,
+    end: starts[index + 1] ?? count,
+    successors: [],
+    predecessors: [],
+  }));
+
+  const graph = new ControlFlowGraph(blocks, instructions, nodeIndexes);
+
+  for (const source of blocks) {
+    for (const pending of edges[source.end - 1]) {
+      const target = graph.getBlockAt(pending.target)!;
+
+      // avoid duplicated edges, like a conditional jump
+      // to the next instruction
+      if (source.successors.some((edge) => edge.target === target)) continue;
+
+      const edge: ControlFlowEdge = { kind: pending.kind, source, target };
+      source.successors.push(edge);
+      target.predecessors.push(edge);
+    }
+  }
+
+  return graph;
+}
+
+/** Returns the address an instruction may jump to, if it can be determined. */
+function getJumpTarget(
+  node: JumpInstruction,
+  labelAddresses: Map<string, number>
+): number | undefined {
+  const { destination } = node.data;
+  if (!destination) return;
+
+  if (destination.isNumber()) return destination.value;
+  if (destination.isIdentifier())
+    return labelAddresses.get(destination.content);
+}
+
+export function writesToCounter(node: InstructionNode<unknown>) {
+  return node.parameters.some(
+    (param) =>
+      param.usage === ParameterUsage.write && param.token.content === counterVar
+  );
+}
+
+/**
+ * Checks whether the program refers to instructions by their address, through
+ * numeric jumps or writes to `@counter` other than returning from a subroutine.
+ * Such programs jump to the wrong instructions when others are removed.
+ */
+export function usesInstructionAddresses(
+  instructions: InstructionNode<unknown>[]
+) {
+  const returnAddresses = getReturnAddresses(instructions);
+
+  return instructions.some((node) => {
+    if (node instanceof JumpInstruction) {
+      return !!node.data.destination?.isNumber();
+    }
+
+    if (!writesToCounter(node)) return false;
+
+    // set @counter ret
+    const value = node instanceof SetInstruction ? node.data.value : undefined;
+    return !value || !returnAddresses.has(value.content);
+  });
+}
+
+/**
+ * Collects the addresses that are stored in variables by reading `@counter`,
+ * such as the return address in `op add ret @counter 1`.
+ *
+ * Only the variables that are never written in any other way are included,
+ * since they might otherwise hold any address.
+ */
+function getReturnAddresses(
+  instructions: InstructionNode<unknown>[]
+): Map<string, number[]> {
+  const addresses = new Map<string, number[]>();
+  const otherWrites = new Set<string>();
+
+  for (let address = 0; address < instructions.length; address++) {
+    const node = instructions[address];
+    const reads = node.parameters.some(
+      (param) =>
+        param.usage === ParameterUsage.read &&
+        param.token.content === counterVar
+    );
+
+    // @counter is incremented before the instruction is executed
+    const offset =
+      reads && !writesToCounter(node) ? getCounterOffset(node) : undefined;
+
+    for (const { usage, token } of node.parameters) {
+      if (usage !== ParameterUsage.write) continue;
+
+      const name = token.content;
+      if (offset === undefined) {
+        otherWrites.add(name);
+        continue;
+      }
+
+      const values = addresses.get(name) ?? [];
+      values.push(address + 1 + offset);
+      addresses.set(name, values);
+    }
+  }
+
+  for (const name of otherWrites) {
+    addresses.delete(name);
+  }
+
+  return addresses;
+}
+
+/**
+ * Returns the value added to `@counter` by instructions like `set x @counter`
+ * and `op add x @counter 2`.
+ */
+export function getCounterOffset(
+  node: InstructionNode<unknown>
+): number | undefined {
+  if (node instanceof SetInstruction) {
+    if (node.data.value?.content === counterVar) return 0;
+    return;
+  }
+
+  if (!(node instanceof OpInstruction)) return;
+  if (node.data.$type !== "add") return;
+
+  const { a, b } = node.data;
+  if (a?.content === counterVar) return getIntegerValue(b);
+  if (b?.content === counterVar) return getIntegerValue(a);
+}
+
+function getCounterWriteTargets(
+  node: InstructionNode<unknown>,
+  address: number,
+  count: number,
+  returnAddresses: Map<string, number[]>
+): number[] {
+  if (node instanceof SetInstruction) {
+    const { value } = node.data;
+
+    // set @counter 10
+    const address = getIntegerValue(value);
+    if (address !== undefined) return [address];
+
+    // set @counter ret
+    const addresses = value && returnAddresses.get(value.content);
+    if (addresses) return addresses;
+  }
+
+  // jump tables: op add @counter @counter index
+  const offset = getCounterOffset(node);
+  if (offset !== undefined) return [address + 1 + offset];
+
+  if (
+    node instanceof OpInstruction &&
+    node.data.$type === "add" &&
+    (node.data.a?.content === counterVar || node.data.b?.content === counterVar)
+  ) {
+    return range(address + 1, count);
+  }
+
+  return range(0, count);
+}
+
+function getIntegerValue(token: TextToken | undefined) {
+  if (!token?.isNumber()) return;
+  if (!Number.isInteger(token.value)) return;
+
+  return token.value;
+}
+
+function range(start: number, end: number) {
+  const values: number[] = [];
+  for (let i = start; i < end; i++) {
+    values.push(i);
+  }
+  return values;
+}
+
+function binarySearch(values: number[], target: number) {
+  let start = 0;
+  let end = values.length;
+
+  while (start < end) {
+    const mid = start + ((end - start) >> 1);
+    const value = values[mid];
+
+    if (value === target) return mid;
+
+    if (value < target) {
+      start = mid + 1;
+    } else {
+      end = mid;
+    }
+  }
+
+  return -1;
+}
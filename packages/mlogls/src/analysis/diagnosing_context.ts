@@ -3,6 +3,7 @@ import { ParserDiagnostic } from "../parser/tokenize";
 import { DiagnosticDirectiveItem } from "../parser/tokens";
 import { DiagnosticCode } from "../lsp/protocol";
 import { SyntaxNode } from "../parser/nodes";
+import { MlogConfig, defaultConfig } from "../config";
 
 export interface DiagnosticSuppressionInfo {
   /**
@@ -25,7 +26,8 @@ export class DiagnosingContext {
     public diagnostics: ParserDiagnostic[],
     /** Maps syntax node indexes to diagnostic suppression info */
     public suppressionMapping: DiagnosticSuppressionInfo[],
-    public unusedItems: Set<DiagnosticDirectiveItem>
+    public unusedItems: Set<DiagnosticDirectiveItem>,
+    public config: MlogConfig = defaultConfig
   ) {}
 
   isDisabled(index: number, code: DiagnosticCode) {
@@ -45,6 +47,11 @@ export class DiagnosingContext {
 
   addDiagnostic(index: number, diagnostic: ParserDiagnostic) {
     if (this.locallyDisabledCodes.has(diagnostic.code)) return;
+
+    // rules turned off by the configuration behave as if they
+    // were not enabled at all
+    if (this.isTurnedOff(diagnostic.code)) return;
+
     const info = this.suppressionMapping[index];
 
     if (info?.disabledCodes.has(diagnostic.code)) {
@@ -53,7 +60,25 @@ export class DiagnosingContext {
       return;
     }
 
-    this.diagnostics.push(diagnostic);
+    this.addParserDiagnostic(diagnostic);
+  }
+
+  /**
+   * Adds a diagnostic found while parsing the document, which can't be
+   * suppressed by directives but still follows the configured severities.
+   */
+  addParserDiagnostic(diagnostic: ParserDiagnostic) {
+    const severity = this.config.severities.get(diagnostic.code);
+    if (severity === null) return;
+
+    this.diagnostics.push(
+      severity === undefined ? diagnostic : { ...diagnostic, severity }
+    );
+  }
+
+  /** Whether a diagnostic code is turned off by the configuration. */
+  isTurnedOff(code: DiagnosticCode) {
+    return this.config.severities.get(code) === null;
   }
 
   reportUnusedItems(nodes: SyntaxNode[]) {
@@ -69,6 +94,10 @@ export class DiagnosingContext {
       if (!directive) continue;
 
       for (const item of directive.items) {
+        // rules turned off by the configuration never report diagnostics,
+        // so there is no way to tell whether their directives are needed
+        if (item.code && this.isTurnedOff(item.code)) continue;
+
         if (this.unusedItems.has(item)) {
           this.addDiagnostic(i, {
             code: DiagnosticCode.unnecessaryDiagnosticDirective,
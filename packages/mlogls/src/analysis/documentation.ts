@@ -0,0 +1,570 @@
+import { MarkupContent, MarkupKind } from "vscode-languageserver";
+import {
+  blocks,
+  colorData,
+  items,
+  liquids,
+  makeColorVarName,
+  soundNames,
+  statusEffects,
+  units,
+  weatherNames,
+} from "../constants";
+
+/** Descriptions of the instructions, keyed by their names. */
+const instructionDocs = new Map<string, string>(
+  Object.entries({
+    noop: "Does nothing.",
+    read: "Reads a number from a linked memory cell or memory bank, or a variable from a linked processor.",
+    write:
+      "Writes a number to a linked memory cell or memory bank, or a variable to a linked processor.",
+    draw: "Adds an operation to the drawing buffer. Nothing is displayed until `drawflush` is used.",
+    print:
+      "Adds text to the text buffer. Nothing is displayed until `printflush` is used.",
+    printchar:
+      "Adds a single character, given by its UTF-16 code, to the text buffer.",
+    format:
+      "Replaces the next placeholder of the text buffer, from `{0}` to `{9}`, with a value.",
+    drawflush:
+      "Flushes the queued `draw` operations to a display and clears the drawing buffer.",
+    printflush:
+      "Flushes the text buffer to a message block and clears the buffer.",
+    getlink:
+      "Gets a building linked to the processor by its index, starting at 0. The amount of links is stored in `@links`.",
+    control: "Controls a building.",
+    radar: "Locates units around a building with a range.",
+    sensor: "Gets data from a building or unit.",
+    set: "Sets a variable.",
+    op: "Performs an operation on one or two values.",
+    wait: "Waits for a certain number of seconds.",
+    stop: "Halts the execution of the processor.",
+    lookup: "Looks up an item, liquid, unit, block or team type by its ID.",
+    packcolor:
+      "Packs RGBA components between 0 and 1 into a single number, for use with `draw col` and `control color`.",
+    unpackcolor:
+      "Unpacks the RGBA components, between 0 and 1, of a color packed with `packcolor`.",
+    end: "Jumps back to the first instruction.",
+    jump: "Conditionally jumps to another instruction.",
+    select:
+      "Conditionally chooses one of two values and stores it in a variable.",
+    ubind:
+      "Binds to the next unit of a type and stores it in `@unit`. A unit can also be bound directly by passing it instead of a type.",
+    ucontrol: "Controls the unit bound to the processor.",
+    uradar: "Locates units around the bound unit.",
+    ulocate:
+      "Locates a specific type of building, ore or enemy spawn anywhere on the map. Requires a bound unit.",
+    getblock: "Gets the tile data at a location.",
+    setblock: "Sets the tile data at a location.",
+    spawn: "Spawns a unit at a location.",
+    bullet: "Spawns a bullet of a turret or unit weapon at a location.",
+    weathersense: "Checks whether a type of weather is active.",
+    weatherset: "Sets the current state of a type of weather.",
+    status: "Applies or clears a status effect from a unit.",
+    spawnwave:
+      "Spawns a wave at a location, or at the enemy spawns if the wave is natural.",
+    setrule: "Sets a game rule.",
+    message:
+      "Displays the contents of the text buffer to the players and clears the buffer.",
+    cutscene: "Manipulates the camera of the player.",
+    effect: "Creates a particle effect.",
+    explosion: "Creates an explosion at a location.",
+    setrate:
+      "Sets the speed of the processor, in instructions executed per tick.",
+    fetch: "Looks up units, cores, players or buildings by index.",
+    query:
+      "Finds the units or buildings of a team inside of an area. The results are stored in `@queries`.",
+    sync: "Synchronizes a variable across the network. Limited to 20 times per second per variable.",
+    getflag: "Checks whether a global flag is set.",
+    setflag: "Sets a global flag that can be read by all processors.",
+    setprop: "Sets a property of a unit or building.",
+    playsound: "Plays a sound.",
+    playmusic: "Plays a music track.",
+    setmarker: "Sets a property of a marker.",
+    makemarker: "Creates a new logic marker in the world.",
+    printlocale: "Adds the value of a map locale property to the text buffer.",
+  })
+);
+
+/** Descriptions shared by the conditions of `jump` and `select`. */
+const conditionDocs = {
+  equal: "`x == y`, converting the values to a common type.",
+  notEqual: "`x != y`, converting the values to a common type.",
+  lessThan: "`x < y`.",
+  lessThanEq: "`x <= y`.",
+  greaterThan: "`x > y`.",
+  greaterThanEq: "`x >= y`.",
+  strictEqual: "`x === y`, without converting the values.",
+};
+
+/**
+ * Descriptions of the overload variants, keyed by the instruction name and the
+ * variant, like `op add`.
+ */
+const variantDocs = new Map<string, string>(
+  Object.entries({
+    "draw clear": "Fills the display with a color.",
+    "draw color": "Sets the color of the next drawing operations.",
+    "draw col":
+      "Sets the color of the next drawing operations to a packed color.",
+    "draw stroke": "Sets the line width of the next drawing operations.",
+    "draw line": "Draws a line segment.",
+    "draw rect": "Draws a filled rectangle.",
+    "draw lineRect": "Draws the outline of a rectangle.",
+    "draw poly": "Draws a filled regular polygon.",
+    "draw linePoly": "Draws the outline of a regular polygon.",
+    "draw triangle": "Draws a filled triangle.",
+    "draw image":
+      "Draws the image of some content, like `@router` or `@dagger`.",
+    "draw print":
+      "Draws the contents of the text buffer, which is cleared afterwards. Only ASCII characters are supported.",
+    "draw translate": "Offsets the position of the next drawing operations.",
+    "draw scale": "Scales the next drawing operations.",
+    "draw rotate": "Rotates the next drawing operations, in degrees.",
+    "draw reset": "Resets the transformations of the next drawing operations.",
+
+    "control enabled": "Enables or disables a building.",
+    "control shoot": "Shoots at a position.",
+    "control shootp": "Shoots at a unit or building, predicting its velocity.",
+    "control config":
+      "Sets the configuration of a building, like the item of a sorter.",
+    "control color": "Sets the color of an illuminator.",
+
+    "op add": "Adds two numbers.",
+    "op sub": "Subtracts two numbers.",
+    "op mul": "Multiplies two numbers.",
+    "op div": "Divides two numbers.",
+    "op idiv": "Divides two numbers and rounds the result down.",
+    "op mod":
+      "Gets the remainder of a division, with the sign of the dividend.",
+    "op emod":
+      "Gets the remainder of a division, with the sign of the divisor.",
+    "op pow": "Raises a number to a power.",
+    "op equal": `Returns 1 if ${conditionDocs.equal}`,
+    "op notEqual": `Returns 1 if ${conditionDocs.notEqual}`,
+    "op land": "Returns 1 if both values are truthy.",
+    "op lessThan": `Returns 1 if ${conditionDocs.lessThan}`,
+    "op lessThanEq": `Returns 1 if ${conditionDocs.lessThanEq}`,
+    "op greaterThan": `Returns 1 if ${conditionDocs.greaterThan}`,
+    "op greaterThanEq": `Returns 1 if ${conditionDocs.greaterThanEq}`,
+    "op strictEqual": `Returns 1 if ${conditionDocs.strictEqual}`,
+    "op shl": "Shifts the bits of an integer to the left.",
+    "op shr": "Shifts the bits of an integer to the right, keeping its sign.",
+    "op ushr":
+      "Shifts the bits of an integer to the right, filling with zeros.",
+    "op or": "Bitwise OR.",
+    "op and": "Bitwise AND.",
+    "op xor": "Bitwise XOR.",
+    "op not": "Flips all the bits of an integer.",
+    "op max": "Returns the largest of two numbers.",
+    "op min": "Returns the smallest of two numbers.",
+    "op angle": "Returns the angle of a vector, in degrees.",
+    "op angleDiff":
+      "Returns the absolute distance between two angles, in degrees.",
+    "op len": "Returns the length of a vector.",
+    "op noise": "Returns 2D simplex noise.",
+    "op abs": "Returns the absolute value of a number.",
+    "op sign": "Returns the sign of a number: -1, 0 or 1.",
+    "op log": "Returns the natural logarithm of a number.",
+    "op logn": "Returns the logarithm of a number in a base.",
+    "op log10": "Returns the base 10 logarithm of a number.",
+    "op floor": "Rounds a number down.",
+    "op ceil": "Rounds a number up.",
+    "op round": "Rounds a number to the nearest integer.",
+    "op sqrt": "Returns the square root of a number.",
+    "op rand": "Returns a random decimal number in the range `[0, max)`.",
+    "op sin": "Returns the sine of an angle, in degrees.",
+    "op cos": "Returns the cosine of an angle, in degrees.",
+    "op tan": "Returns the tangent of an angle, in degrees.",
+    "op asin": "Returns the arc sine of a number, in degrees.",
+    "op acos": "Returns the arc cosine of a number, in degrees.",
+    "op atan": "Returns the arc tangent of a number, in degrees.",
+
+    "lookup block": "Looks up a block type by its ID.",
+    "lookup unit": "Looks up a unit type by its ID.",
+    "lookup item": "Looks up an item type by its ID.",
+    "lookup liquid": "Looks up a liquid type by its ID.",
+    "lookup team": "Looks up a team by its ID.",
+
+    ...Object.fromEntries(
+      Object.entries(conditionDocs).map(([key, doc]) => [
+        `jump ${key}`,
+        `Jumps if ${doc}`,
+      ])
+    ),
+    "jump always": "Always jumps.",
+
+    ...Object.fromEntries(
+      Object.entries(conditionDocs).map(([key, doc]) => [
+        `select ${key}`,
+        `Chooses the first value if ${doc}`,
+      ])
+    ),
+    "select always": "Always chooses the value.",
+
+    "ucontrol idle": "Stops moving, but keeps building and mining.",
+    "ucontrol stop": "Stops all the actions of the unit.",
+    "ucontrol move": "Moves to a position.",
+    "ucontrol approach": "Moves to a radius around a position.",
+    "ucontrol pathfind":
+      "Moves to a position, avoiding the obstacles along the way.",
+    "ucontrol autoPathfind":
+      "Moves along the path used by the ground units of the enemy waves.",
+    "ucontrol boost": "Starts or stops boosting.",
+    "ucontrol target": "Shoots at a position.",
+    "ucontrol targetp":
+      "Shoots at a unit or building, predicting its velocity.",
+    "ucontrol itemDrop": "Drops the carried items into a building.",
+    "ucontrol itemTake": "Takes an item from a building.",
+    "ucontrol payDrop": "Drops the current payload.",
+    "ucontrol payTake": "Picks up the payload at the current location.",
+    "ucontrol payEnter": "Enters or lands on the payload block under the unit.",
+    "ucontrol mine": "Mines the ore at a position.",
+    "ucontrol flag": "Sets the numeric flag of the unit.",
+    "ucontrol build": "Builds a block at a position.",
+    "ucontrol deconstruct": "Deconstructs the block at a position.",
+    "ucontrol getBlock":
+      "Gets the block type, building and floor at a position. The position must be within the range of the unit.",
+    "ucontrol within":
+      "Checks whether the unit is within a radius of a position.",
+    "ucontrol unbind":
+      "Stops controlling the unit and returns it to its normal behavior.",
+
+    "ulocate ore": "Locates the closest ore of a type.",
+    "ulocate building": "Locates the closest building of a group.",
+    "ulocate spawn": "Locates the closest enemy spawn point.",
+    "ulocate damaged": "Locates the closest damaged building of the team.",
+
+    "getblock floor": "Gets the floor at a location.",
+    "getblock ore": "Gets the ore at a location.",
+    "getblock block": "Gets the block at a location.",
+    "getblock building": "Gets the building at a location.",
+
+    "setblock floor": "Sets the floor at a location.",
+    "setblock ore": "Sets the ore at a location.",
+    "setblock block": "Places a block at a location.",
+
+    "status true": "Clears a status effect from a unit.",
+    "status false": "Applies a status effect to a unit for a duration.",
+
+    "message notify": "Displays a notification at the top of the screen.",
+    "message announce": "Displays an announcement in the middle of the screen.",
+    "message toast": "Displays a toast at the top of the screen.",
+    "message mission": "Displays the text as the mission of the map.",
+
+    "cutscene active": "Checks whether a cutscene is active.",
+    "cutscene pan": "Moves the camera to a position.",
+    "cutscene zoom": "Zooms the camera.",
+    "cutscene stop": "Gives the control of the camera back to the player.",
+    "cutscene shake": "Shakes the camera.",
+    "cutscene getHud": "Checks whether the HUD is shown.",
+    "cutscene setHud": "Shows or hides the HUD.",
+
+    "fetch unit": "Gets a unit of a team by index.",
+    "fetch unitCount": "Gets the amount of units of a team.",
+    "fetch player": "Gets the unit of a player of a team by index.",
+    "fetch playerCount": "Gets the amount of players of a team.",
+    "fetch core": "Gets a core of a team by index.",
+    "fetch coreCount": "Gets the amount of cores of a team.",
+    "fetch build": "Gets a building of a team by index.",
+    "fetch buildCount": "Gets the amount of buildings of a team.",
+
+    "query circle": "Finds the units or buildings inside of a circle.",
+    "query rect": "Finds the units or buildings inside of a rectangle.",
+
+    "playsound false": "Plays a sound that is heard everywhere.",
+    "playsound true": "Plays a sound at a position of the world.",
+
+    "makemarker shapeText": "Creates a shape with a text label.",
+    "makemarker point": "Creates an animated point.",
+    "makemarker shape": "Creates a regular polygon.",
+    "makemarker text": "Creates a text label.",
+    "makemarker line": "Creates a line between two positions.",
+    "makemarker texture": "Creates an image.",
+    "makemarker quad": "Creates a quad with a texture.",
+  })
+);
+
+/** Descriptions of the `setrule`, `effect` and `setmarker` variants. */
+const propertyVariantDocs: Record<string, Record<string, string>> = {
+  setrule: {
+    currentWaveTime: "Sets the countdown to the next wave, in seconds.",
+    waveTimer: "Enables or disables the wave countdown.",
+    waves: "Enables or disables waves.",
+    wave: "Sets the current wave number.",
+    waveSpacing: "Sets the time between waves, in seconds.",
+    waveSending: "Allows or disallows players to call the next wave.",
+    attackMode: "Enables or disables the attack game mode.",
+    enemyCoreBuildRadius:
+      "Sets the radius around enemy cores where players can't build.",
+    dropZoneRadius:
+      "Sets the radius around enemy spawns that destroys player units.",
+    unitCap: "Sets the base unit cap.",
+    musicVolume: "Sets the volume of the music.",
+    mapArea: "Sets the playable area of the map.",
+    lighting: "Enables or disables lighting.",
+    canGameOver: "Sets whether the game can end.",
+    pauseDisabled: "Sets whether players can pause the game.",
+    ambientLight: "Sets the color of the ambient light.",
+    solarMultiplier: "Sets the multiplier of the power of solar panels.",
+    dragMultiplier: "Sets the multiplier of the drag of the environment.",
+    ban: "Bans a block or unit type.",
+    unban: "Unbans a block or unit type.",
+    buildSpeed: "Sets the build speed multiplier of a team.",
+    unitHealth: "Sets the unit health multiplier of a team.",
+    unitBuildSpeed: "Sets the unit production speed multiplier of a team.",
+    unitMineSpeed: "Sets the unit mining speed multiplier of a team.",
+    unitCost: "Sets the unit cost multiplier of a team.",
+    unitDamage: "Sets the unit damage multiplier of a team.",
+    blockHealth: "Sets the block health multiplier of a team.",
+    blockDamage: "Sets the block damage multiplier of a team.",
+    rtsMinWeight: "Sets the minimum weight of the squads of the RTS AI.",
+    rtsMinSquad: "Sets the minimum size of the squads of the RTS AI.",
+  },
+  setmarker: {
+    remove: "Removes the marker.",
+    world: "Sets whether the marker is shown in the world.",
+    minimap: "Sets whether the marker is shown in the minimap.",
+    autoscale: "Sets whether the marker scales with the zoom of the player.",
+    pos: "Sets the position of the marker.",
+    endPos: "Sets the end position of the marker.",
+    drawLayer: "Sets the layer the marker is drawn on.",
+    color: "Sets the color of the marker.",
+    radius: "Sets the radius of the marker.",
+    stroke: "Sets the line width of the marker.",
+    outline: "Sets whether the marker has an outline.",
+    rotation: "Sets the rotation of the marker.",
+    shape: "Sets the shape of the marker.",
+    flushText: "Sets the text of the marker to the text buffer.",
+    fontSize: "Sets the font size of the marker.",
+    textHeight: "Sets the height of the text of the marker.",
+    textAlign: "Sets the alignment of the text of the marker.",
+    lineAlign: "Sets the alignment of the lines of the marker.",
+    labelFlags: "Sets whether the label has a background and an outline.",
+    texture: "Sets the texture of the marker.",
+    textureSize: "Sets the size of the texture of the marker.",
+    posi: "Sets a position of the marker by index.",
+    uvi: "Sets a texture coordinate of the marker by index.",
+    colori: "Sets a color of the marker by index.",
+  },
+};
+
+/** Descriptions of the built-in variables and sensors. */
+const constantDocs = new Map<string, string>(
+  Object.entries({
+    true: "Equal to 1.",
+    false: "Equal to 0.",
+    null: "The absence of a value. Uninitialized variables are `null`.",
+
+    "@pi": "The ratio between the circumference and the diameter of a circle.",
+    "@e": "Euler's number, the base of the natural logarithm.",
+    "@degToRad": "Multiply by this number to convert degrees to radians.",
+    "@radToDeg": "Multiply by this number to convert radians to degrees.",
+
+    "@counter":
+      "The index of the next instruction to be executed. Writing to it jumps to another instruction.",
+    "@unit": "The unit bound to the processor by `ubind`.",
+    "@this": "The processor that runs the code.",
+    "@thisx": "The x coordinate of the processor.",
+    "@thisy": "The y coordinate of the processor.",
+    "@links": "The amount of buildings linked to the processor.",
+    "@ipt": "The amount of instructions executed per tick by the processor.",
+    "@time": "The playtime of the current save, in milliseconds.",
+    "@tick":
+      "The playtime of the current save, in ticks. A second has 60 ticks.",
+    "@second": "The playtime of the current save, in seconds.",
+    "@minute": "The playtime of the current save, in minutes.",
+    "@waveNumber": "The number of the current wave.",
+    "@waveTime": "The countdown to the next wave, in seconds.",
+    "@mapw": "The width of the map, in tiles.",
+    "@maph": "The height of the map, in tiles.",
+    "@wait":
+      "Passed to `message` to wait until the previous message is finished.",
+    "@server": "Whether the code is running on a server or in singleplayer.",
+    "@client": "Whether the code is running on a client connected to a server.",
+    "@clientLocale": "The locale of the client running the code.",
+    "@clientUnit": "The unit of the client running the code.",
+    "@clientName": "The name of the player of the client running the code.",
+    "@clientTeam": "The team of the client running the code.",
+    "@clientMobile":
+      "Whether the client running the code is on a mobile device.",
+    "@clientMusicPlaying": "Whether music is playing on the client.",
+    "@clientCurrentMusic": "The music track playing on the client.",
+    "@ctrlPlayer":
+      "The value of `@controlled` for units controlled by players.",
+    "@ctrlProcessor":
+      "The value of `@controlled` for units and buildings controlled by processors.",
+    "@ctrlCommand":
+      "The value of `@controlled` for units commanded by players.",
+    "@itemCount": "The amount of item types.",
+    "@liquidCount": "The amount of liquid types.",
+    "@unitCount": "The amount of unit types.",
+    "@blockCount": "The amount of block types.",
+    "@center": "Centers the text of `draw print`.",
+    "@top": "Aligns the text of `draw print` to the top.",
+    "@bottom": "Aligns the text of `draw print` to the bottom.",
+    "@left": "Aligns the text of `draw print` to the left.",
+    "@right": "Aligns the text of `draw print` to the right.",
+    "@topLeft": "Aligns the text of `draw print` to the top left.",
+    "@topRight": "Aligns the text of `draw print` to the top right.",
+    "@bottomLeft": "Aligns the text of `draw print` to the bottom left.",
+    "@bottomRight": "Aligns the text of `draw print` to the bottom right.",
+    "@queries": "The results of the last `query` instruction.",
+
+    "@derelict": "The team of abandoned buildings and units.",
+    "@sharded": "The default team of the players.",
+    "@crux": "The default team of the enemy waves.",
+    "@malis": "The team of the enemies of Erekir.",
+    "@green": "An extra team.",
+    "@blue": "An extra team.",
+
+    "@totalItems": "The total amount of items stored.",
+    "@firstItem": "The first item stored.",
+    "@totalLiquids": "The total amount of liquids stored.",
+    "@totalPower": "The amount of power stored in the building.",
+    "@itemCapacity": "The maximum amount of each item that can be stored.",
+    "@liquidCapacity": "The maximum amount of each liquid that can be stored.",
+    "@powerCapacity": "The maximum amount of power the building can store.",
+    "@powerNetStored": "The amount of power stored in the power graph.",
+    "@powerNetCapacity":
+      "The maximum amount of power that the power graph can store.",
+    "@powerNetIn": "The power produced by the power graph per second.",
+    "@powerNetOut": "The power consumed by the power graph per second.",
+    "@ammo": "The amount of ammo of a turret or unit.",
+    "@ammoCapacity": "The maximum amount of ammo of a turret or unit.",
+    "@currentAmmoType": "The type of the ammo of a turret.",
+    "@memoryCapacity": "The amount of values a memory cell or bank can store.",
+    "@health": "The health of the target.",
+    "@maxHealth": "The maximum health of the target.",
+    "@heat": "The heat of the target, like the heat of a reactor.",
+    "@shield": "The amount of shield of the target.",
+    "@armor": "The armor of the target.",
+    "@efficiency": "The efficiency of the building, between 0 and 1.",
+    "@progress":
+      "The progress of the current action of the target, between 0 and 1.",
+    "@timescale":
+      "The speed multiplier of the building, like the boost of an overdrive projector.",
+    "@rotation": "The rotation of the target, in degrees.",
+    "@x": "The x coordinate of the target.",
+    "@y": "The y coordinate of the target.",
+    "@velocityX": "The horizontal velocity of the target.",
+    "@velocityY": "The vertical velocity of the target.",
+    "@shootX": "The x coordinate the target is aiming at.",
+    "@shootY": "The y coordinate the target is aiming at.",
+    "@cameraX": "The x coordinate of the camera of a player.",
+    "@cameraY": "The y coordinate of the camera of a player.",
+    "@cameraWidth": "The width of the camera of a player.",
+    "@cameraHeight": "The height of the camera of a player.",
+    "@displayWidth": "The width of a display, in pixels.",
+    "@displayHeight": "The height of a display, in pixels.",
+    "@bufferSize":
+      "The amount of operations in the drawing buffer of a display.",
+    "@operations": "The amount of operations executed by a display.",
+    "@size": "The size of the target, in tiles.",
+    "@solid": "Whether the target is solid.",
+    "@dead": "Whether the target is dead or no longer exists.",
+    "@range": "The range of the target, in world units.",
+    "@shooting": "Whether the target is shooting.",
+    "@boosting": "Whether the unit is boosting.",
+    "@mineX": "The x coordinate of the ore the unit is mining.",
+    "@mineY": "The y coordinate of the ore the unit is mining.",
+    "@mining": "Whether the unit is mining.",
+    "@buildX": "The x coordinate of the block the unit is building.",
+    "@buildY": "The y coordinate of the block the unit is building.",
+    "@pingX": "The x coordinate the player is pointing at.",
+    "@pingY": "The y coordinate the player is pointing at.",
+    "@pingText": "The text of the ping of the player.",
+    "@building": "The building the unit is building.",
+    "@breaking": "Whether the unit is deconstructing a block.",
+    "@speed": "The maximum speed of the unit, in tiles per second.",
+    "@team": "The team of the target.",
+    "@type": "The type of the target, like `@router` or `@dagger`.",
+    "@flag": "The numeric flag of the unit.",
+    "@flying": "Whether the unit is flying.",
+    "@controlled":
+      "Whether the target is controlled by a player (`@ctrlPlayer`), a processor (`@ctrlProcessor`) or commanded (`@ctrlCommand`), or 0 otherwise.",
+    "@controller":
+      "The unit or processor controlling the target, or the target itself if not controlled.",
+    "@name": "The name of the player controlling the unit.",
+    "@payloadCount": "The amount of payloads carried.",
+    "@payloadType": "The type of the payload carried.",
+    "@totalPayload": "The total size of the payloads carried.",
+    "@payloadCapacity": "The maximum size of the payloads that can be carried.",
+    "@maxUnits": "The maximum amount of units of the type of the target.",
+    "@id": "The ID of a type of content, used by `lookup`.",
+    "@selectedBlock": "The block selected by the player.",
+    "@selectedRotation": "The rotation of the block selected by the player.",
+    "@bulletLifetime": "The lifetime of a bullet.",
+    "@bulletTime": "The time a bullet has existed for.",
+    "@enabled": "Whether the building is enabled.",
+    "@shoot": "The configuration of `control shoot`.",
+    "@shootp": "The configuration of `control shootp`.",
+    "@config": "The configuration of the building, like the item of a sorter.",
+    "@color": "The color of an illuminator.",
+  })
+);
+
+/** Returns the description of an instruction. */
+export function getInstructionDocs(name: string) {
+  return instructionDocs.get(name);
+}
+
+/** Returns the description of an overload variant, like `op add`. */
+export function getVariantDocs(name: string, variant: string) {
+  return (
+    variantDocs.get(`${name} ${variant}`) ??
+    propertyVariantDocs[name]?.[variant] ??
+    getEffectDocs(name, variant)
+  );
+}
+
+/** Returns the description of a built-in variable or sensor. */
+export function getConstantDocs(name: string) {
+  return constantDocs.get(name) ?? contentDocs.get(name);
+}
+
+function getEffectDocs(name: string, variant: string) {
+  if (name !== "effect") return;
+
+  return `Creates the \`${variant}\` particle effect.`;
+}
+
+/** Describes the content constants by their kinds, like "The `copper` item." */
+function getContentDocs() {
+  const docs = new Map<string, string>();
+  const add = (name: string, content: string, kind: string) =>
+    docs.set(name, `The \`${content}\` ${kind}.`);
+
+  for (const name of items) add(name, name.slice(1), "item");
+  for (const name of liquids) add(name, name.slice(1), "liquid");
+  for (const name of blocks) add(name, name.slice(1), "block");
+  for (const name of units) add(name, name.slice(1), "unit type");
+  for (const name of weatherNames) add(name, name.slice(1), "weather");
+
+  for (const name of soundNames) {
+    add(name, name.slice("@sfx-".length), "sound");
+  }
+
+  for (const effect of statusEffects) {
+    add(`@status-${effect}`, effect, "status effect");
+  }
+
+  for (const color in colorData) {
+    add(makeColorVarName(color), color, "color");
+  }
+
+  return docs;
+}
+
+const contentDocs = getContentDocs();
+
+/**
+ * Wraps a description into the markdown content used by completions and
+ * signatures.
+ */
+export function markdownDocs(
+  docs: string | undefined
+): MarkupContent | undefined {
+  if (!docs) return;
+
+  return { kind: MarkupKind.Markdown, value: docs };
+}
@@ -0,0 +1,58 @@
+import { CommentLine, SyntaxNode } from "../parser/nodes";
+import { ParserPosition } from "../parser/tokens";
+
+export enum HeaderDirectiveKind {
+  processor = "mlogls-processor",
+  version = "mlogls-version",
+}
+
+/**
+ * A comment like `# mlogls-processor world` in the header of a file, which
+ * changes how the whole file is analyzed.
+ */
+export interface HeaderDirective {
+  /** The index of the comment line containing the directive. */
+  nodeIndex: number;
+  /** The value written after the directive kind. */
+  value: string;
+  /** The start of the value, or the end of the directive kind if it's empty. */
+  start: ParserPosition;
+  end: ParserPosition;
+}
+
+/** Returns the index of the first node that is not a comment line. */
+export function getHeaderEnd(nodes: SyntaxNode[]) {
+  const index = nodes.findIndex((node) => !(node instanceof CommentLine));
+  return index === -1 ? nodes.length : index;
+}
+
+/**
+ * Finds a directive in the comments placed before the first line of code of a
+ * file.
+ */
+export function findHeaderDirective(
+  nodes: SyntaxNode[],
+  kind: HeaderDirectiveKind
+): HeaderDirective | undefined {
+  const regex = new RegExp(`^#\\s*${kind}(?:\\s+(\\S*))?(?=\\s|$)`);
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (!(node instanceof CommentLine)) return;
+
+    const comment = node.trailingComment;
+    const match = comment.content.match(regex);
+    if (!match) continue;
+
+    const value = match[1] ?? "";
+    const valueStart = match[0].length - value.length;
+    const { line, character } = comment.start;
+
+    return {
+      nodeIndex: i,
+      value,
+      start: new ParserPosition(line, character + valueStart),
+      end: new ParserPosition(line, character + match[0].length),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { CommentLine } from "../parser/nodes";
+import { ParameterType, ParameterUsage } from "../parser/descriptors";
+import { TextToken } from "../parser/tokens";
+import { BitSet } from "../util/bitset";
+import { AnalysisUnit } from "./analysis_unit";
+
+export interface UninitializedRead {
+  /** The index of the syntax node that reads the variable. */
+  nodeIndex: number;
+  token: TextToken;
+}
+
+/**
+ * Finds reads of variables that may happen before any write to them on the
+ * first run of the program, when all variables are still `null`.
+ *
+ * The analysis starts at address 0 with no initialized variables. Values that
+ * are carried over to the next run through the wrap around to address 0 are
+ * intentional, so they never make a read valid on the first run.
+ *
+ * Variables declared with `@external` are assumed to be initialized by another
+ * processor.
+ */
+export function findUninitializedReads(
+  unit: AnalysisUnit
+): UninitializedRead[] {
+  const { nodes, symbolTable, controlFlowGraph: graph } = unit;
+
+  const externals = new Set<string>();
+  for (const node of nodes) {
+    if (!(node instanceof CommentLine)) continue;
+    if (node.docAnnotation?.kind !== "external") continue;
+
+    externals.add(node.docAnnotation.variableName);
+  }
+
+  const variables = new Map<string, number>();
+  for (const symbol of symbolTable.localValues()) {
+    if (!symbol.isWriteable || symbol.isBuildingLink) continue;
+    if (externals.has(symbol.name)) continue;
+
+    variables.set(symbol.name, variables.size);
+  }
+
+  const reads: UninitializedRead[] = [];
+  const entry = graph.entry;
+  if (!entry || variables.size === 0) return reads;
+
+  const { blocks, instructions, reachableBlocks } = graph;
+
+  // variables that are written by each block
+  const writes = blocks.map((block) => {
+    const set = new BitSet(variables.size);
+
+    for (let address = block.start; address < block.end; address++) {
+      for (const param of instructions[address].parameters) {
+        if (param.type !== ParameterType.variable) continue;
+        if (param.usage !== ParameterUsage.write) continue;
+
+        const index = variables.get(param.token.content);
+        if (index !== undefined) set.set(index, true);
+      }
+    }
+
+    return set;
+  });
+
+  // variables that are initialized at the end of each block,
+  // every block except the entry starts with the full set
+  // so that the intersection of the predecessors works
+  const outputs = blocks.map(() => {
+    const set = new BitSet(variables.size);
+    set.fill(true);
+    return set;
+  });
+
+  const getInput = (index: number) => {
+    const input = new BitSet(variables.size);
+    if (index === entry.index) return input;
+
+    input.fill(true);
+    for (const { source } of blocks[index].predecessors) {
+      if (!reachableBlocks.get(source.index)) continue;
+
+      input.assignAnd(outputs[source.index]);
+    }
+
+    return input;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const block of blocks) {
+      if (!reachableBlocks.get(block.index)) continue;
+
+      const output = getInput(block.index);
+      output.assignOr(writes[block.index]);
+
+      if (output.equals(outputs[block.index])) continue;
+
+      outputs[block.index] = output;
+      changed = true;
+    }
+  }
+
+  for (const block of blocks) {
+    if (!reachableBlocks.get(block.index)) continue;
+
+    const initialized = getInput(block.index);
+
+    for (let address = block.start; address < block.end; address++) {
+      const node = instructions[address];
+
+      // instructions like `op add i i 1` read
+      // their inputs before writing the output
+      for (const param of node.parameters) {
+        if (param.type !== ParameterType.variable) continue;
+        if (param.usage !== ParameterUsage.read) continue;
+
+        const index = variables.get(param.token.content);
+        if (index === undefined || initialized.get(index)) continue;
+
+        reads.push({
+          nodeIndex: graph.nodeIndexes[address],
+          token: param.token,
+        });
+
+        // only report the first read on each path
+        initialized.set(index, true);
+      }
+
+      for (const param of node.parameters) {
+        if (param.type !== ParameterType.variable) continue;
+        if (param.usage !== ParameterUsage.write) continue;
+
+        const index = variables.get(param.token.content);
+        if (index !== undefined) initialized.set(index, true);
+      }
+    }
+  }
+
+  return reads;
+}
@@ -131,6 +131,24 @@ export function getLogicalScopes(nodes: SyntaxNode[]) {
   return root;
 }
 
+/** Finds the deepest logical scope that contains the node at `index`. */
+export function findInnermostScope(
+  root: LogicalScope,
+  index: number
+): LogicalScope {
+  let current = root;
+  let child: LogicalScope | undefined = root;
+
+  while (child) {
+    current = child;
+    child = current.children.find(
+      (scope) => scope.start <= index && index < scope.end
+    );
+  }
+
+  return current;
+}
+
 /**
  * Returns a set of label names that are accessible in the logical scope of the
  * node at the provided index.
@@ -0,0 +1,57 @@
+import { maxInstructionCount, maxLabelCount } from "../constants";
+
+export type ProcessorType = "micro" | "logic" | "hyper" | "world";
+
+export interface ProcessorProfile {
+  type: ProcessorType;
+  /** The display name of the processor, like `logic processor`. */
+  name: string;
+  /** The value of `@ipt` on this processor. */
+  instructionsPerTick: number;
+  maxInstructionCount: number;
+  maxLabelCount: number;
+  /** Whether the processor can run world-only instructions, like `setblock`. */
+  privileged: boolean;
+}
+
+export const processorProfiles: Record<ProcessorType, ProcessorProfile> = {
+  micro: {
+    type: "micro",
+    name: "micro processor",
+    instructionsPerTick: 2,
+    maxInstructionCount,
+    maxLabelCount,
+    privileged: false,
+  },
+  logic: {
+    type: "logic",
+    name: "logic processor",
+    instructionsPerTick: 8,
+    maxInstructionCount,
+    maxLabelCount,
+    privileged: false,
+  },
+  hyper: {
+    type: "hyper",
+    name: "hyper processor",
+    instructionsPerTick: 25,
+    maxInstructionCount,
+    maxLabelCount,
+    privileged: false,
+  },
+  world: {
+    type: "world",
+    name: "world processor",
+    // can be changed at runtime with `setrate`
+    instructionsPerTick: 8,
+    maxInstructionCount,
+    maxLabelCount,
+    privileged: true,
+  },
+};
+
+export const processorTypes = Object.keys(processorProfiles) as ProcessorType[];
+
+export function isProcessorType(value: unknown): value is ProcessorType {
+  return processorTypes.includes(value as never);
+}
@@ -344,11 +344,16 @@ export function getDiagnosingContext(
   }
 
   const context = new DiagnosingContext(
-    [...parserDiagnostics],
+    [],
     suppressionMapping,
-    potentiallyUnusedItems
+    potentiallyUnusedItems,
+    unit.config
   );
 
+  for (const diagnostic of parserDiagnostics) {
+    context.addParserDiagnostic(diagnostic);
+  }
+
   for (const [index, diagnostic] of indexedDiagnostics) {
     context.addDiagnostic(index, diagnostic);
   }
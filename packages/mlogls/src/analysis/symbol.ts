@@ -17,6 +17,7 @@ import {
   weatherNames,
 } from "../constants";
 import { parseColor } from "../parser/tokens";
+import { ValueKind } from "./value_kind";
 
 export enum SymbolFlags {
   none = 0,
@@ -30,7 +31,9 @@ export class NameSymbol {
   constructor(
     public name: string,
     public flags: SymbolFlags,
-    public color?: Color
+    public color?: Color,
+    /** The kinds of values held by a built-in variable or building link. */
+    public kind = ValueKind.any
   ) {}
 
   get isKeyword() {
@@ -50,21 +53,47 @@ export class NameSymbol {
   }
 }
 
+/** The global variables that don't hold numbers. */
+const globalVariableKinds: Record<string, ValueKind> = {
+  "@unit": ValueKind.unit | ValueKind.null,
+  "@this": ValueKind.building,
+  "@clientLocale": ValueKind.string | ValueKind.null,
+  "@clientUnit": ValueKind.unit | ValueKind.null,
+  "@clientName": ValueKind.string | ValueKind.null,
+  "@clientTeam": ValueKind.team | ValueKind.null,
+  "@clientCurrentMusic": ValueKind.any,
+};
+
 export const builtInSymbols = [
-  ...keywords.map((name) => new NameSymbol(name, SymbolFlags.keyword)),
-  ...mathConstants.map(makeGlobal),
-  ...globalReadonlyVariables.map(makeGlobal),
-  new NameSymbol(counterVar, SymbolFlags.global | SymbolFlags.writeable),
-  ...teams.map(makeGlobal),
+  ...keywords.map(
+    (name) =>
+      new NameSymbol(
+        name,
+        SymbolFlags.keyword,
+        undefined,
+        name === "null" ? ValueKind.null : ValueKind.number
+      )
+  ),
+  ...mathConstants.map((name) => makeGlobal(name, ValueKind.number)),
+  ...globalReadonlyVariables.map((name) =>
+    makeGlobal(name, globalVariableKinds[name] ?? ValueKind.number)
+  ),
+  new NameSymbol(
+    counterVar,
+    SymbolFlags.global | SymbolFlags.writeable,
+    undefined,
+    ValueKind.number
+  ),
+  ...teams.map((name) => makeGlobal(name, ValueKind.team)),
   ...Object.keys(colorData).map(makeColorGlobal),
-  ...items.map(makeGlobal),
-  ...liquids.map(makeGlobal),
-  ...blocks.map(makeGlobal),
-  ...sensors.map(makeGlobal),
-  ...units.map(makeGlobal),
-  ...soundNames.map(makeGlobal),
+  ...items.map((name) => makeGlobal(name, ValueKind.content)),
+  ...liquids.map((name) => makeGlobal(name, ValueKind.content)),
+  ...blocks.map((name) => makeGlobal(name, ValueKind.content)),
+  ...sensors.map((name) => makeGlobal(name)),
+  ...units.map((name) => makeGlobal(name, ValueKind.content)),
+  ...soundNames.map((name) => makeGlobal(name, ValueKind.number)),
   ...statusEffects.map(makeStatusEffectGlobal),
-  ...weatherNames.map(makeGlobal),
+  ...weatherNames.map((name) => makeGlobal(name, ValueKind.content)),
 ];
 
 export const builtInSymbolMap = new Map(
@@ -119,17 +148,22 @@ export class SymbolTable {
   }
 }
 
-function makeGlobal(name: string) {
-  return new NameSymbol(name, SymbolFlags.global);
+function makeGlobal(name: string, kind = ValueKind.any) {
+  return new NameSymbol(name, SymbolFlags.global, undefined, kind);
 }
 
 function makeColorGlobal(name: string) {
   const color = parseColor(colorData[name]);
   const globalName = makeColorVarName(name);
 
-  return new NameSymbol(globalName, SymbolFlags.global, color);
+  return new NameSymbol(globalName, SymbolFlags.global, color, ValueKind.color);
 }
 
 function makeStatusEffectGlobal(name: string) {
-  return new NameSymbol(`@status-${name}`, SymbolFlags.global);
+  return new NameSymbol(
+    `@status-${name}`,
+    SymbolFlags.global,
+    undefined,
+    ValueKind.content
+  );
 }
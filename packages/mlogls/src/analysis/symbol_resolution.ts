@@ -10,6 +10,7 @@ import {
 } from "../parser/nodes";
 import { NameSymbol, SymbolFlags, SymbolTable } from "./symbol";
 import { TextToken } from "../parser/tokens";
+import { ValueKind } from "./value_kind";
 
 export const buildingNamePattern = /^([a-z]+)(\d+)$/;
 
@@ -17,7 +18,14 @@ export function getSymbolTable(nodes: SyntaxNode[]) {
   const table = new SymbolTable();
 
   for (const name of buildingLinkNames) {
-    table.insert(new NameSymbol(`${name}1`, SymbolFlags.buildingLink));
+    table.insert(
+      new NameSymbol(
+        `${name}1`,
+        SymbolFlags.buildingLink,
+        undefined,
+        ValueKind.building
+      )
+    );
   }
 
   for (const node of nodes) {
@@ -40,7 +48,14 @@ export function getSymbolTable(nodes: SyntaxNode[]) {
           const name = `${baseName}${number}`;
           if (table.has(name)) break;
 
-          table.insert(new NameSymbol(name, SymbolFlags.buildingLink));
+          table.insert(
+            new NameSymbol(
+              name,
+              SymbolFlags.buildingLink,
+              undefined,
+              ValueKind.building
+            )
+          );
           number--;
         }
         continue;
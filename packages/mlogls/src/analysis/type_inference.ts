@@ -0,0 +1,242 @@
+import {
+  CommentLine,
+  FetchInstruction,
+  GetBlockInstruction,
+  GetFlagInstruction,
+  GetLinkInstruction,
+  InstructionNode,
+  LookupInstruction,
+  PackColorInstruction,
+  RadarInstruction,
+  ReadInstruction,
+  SelectInstruction,
+  SensorInstruction,
+  SetInstruction,
+  SpawnUnitInstruction,
+  SyntaxNode,
+  UnitControlInstruction,
+  UnitLocateInstruction,
+  UnitRadarinstruction,
+} from "../parser/nodes";
+import { InstructionParameter, ParameterUsage } from "../parser/descriptors";
+import { TextToken } from "../parser/tokens";
+import { SymbolTable } from "./symbol";
+import { ValueKind } from "./value_kind";
+
+/** The sensors that don't return numbers. */
+const sensorKinds: Record<string, ValueKind> = {
+  "@firstItem": ValueKind.content | ValueKind.null,
+  "@currentAmmoType": ValueKind.content | ValueKind.null,
+  "@pingText": ValueKind.string | ValueKind.null,
+  "@building": ValueKind.building | ValueKind.null,
+  "@team": ValueKind.team,
+  "@type": ValueKind.content,
+  "@controller": ValueKind.unit | ValueKind.building,
+  "@name": ValueKind.string | ValueKind.null,
+  "@payloadType": ValueKind.content | ValueKind.null,
+  "@selectedBlock": ValueKind.content | ValueKind.null,
+  "@config": ValueKind.any,
+  "@color": ValueKind.color,
+};
+
+/** Stores the kinds of values that each variable may hold. */
+export class TypeTable {
+  constructor(
+    private symbols: SymbolTable,
+    private variables: Map<string, ValueKind>
+  ) {}
+
+  /**
+   * Returns the possible kinds of the value of a variable, or `ValueKind.any`
+   * if they can't be known.
+   */
+  getVariableKind(name: string): ValueKind {
+    return (
+      this.variables.get(name) ?? this.symbols.get(name)?.kind ?? ValueKind.any
+    );
+  }
+
+  /** Returns the possible kinds of the value of a token. */
+  getTokenKind(token: TextToken): ValueKind {
+    if (token.isNumber()) return ValueKind.number;
+    if (token.isString()) return ValueKind.string;
+    if (token.isColorLiteral()) return ValueKind.color;
+    if (token.isIdentifier()) return this.getVariableKind(token.content);
+
+    return ValueKind.any;
+  }
+}
+
+/**
+ * Infers the kinds of the values of the variables declared in the code from the
+ * instructions that write to them.
+ */
+export function getTypeTable(nodes: SyntaxNode[], symbols: SymbolTable) {
+  const variables = new Map<string, ValueKind>();
+  const table = new TypeTable(symbols, variables);
+  const externalVariables = getExternalVariables(nodes);
+  const writes: [InstructionNode<unknown>, InstructionParameter][] = [];
+
+  for (const node of nodes) {
+    if (!(node instanceof InstructionNode)) continue;
+
+    for (const param of node.parameters) {
+      if (param.usage !== ParameterUsage.write) continue;
+      if (!param.token.isIdentifier()) continue;
+
+      const name = param.token.content;
+      const symbol = symbols.get(name);
+
+      // external variables can be written by other processors
+      if (!symbol?.isWriteable || symbol.isGlobal) continue;
+      if (externalVariables.has(name)) continue;
+
+      variables.set(name, ValueKind.none);
+      writes.push([node, param]);
+    }
+  }
+
+  // variables can be assigned to each other in any order,
+  // so the kinds are propagated until they stop changing
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (const [node, param] of writes) {
+      const name = param.token.content;
+      const previous = variables.get(name)!;
+      const kind: ValueKind =
+        previous | getWrittenKind(table, node, param.token);
+
+      if (kind === previous) continue;
+
+      variables.set(name, kind);
+      changed = true;
+    }
+  }
+
+  // variables that are only assigned to each other
+  // keep their initial value
+  for (const [name, kind] of variables) {
+    if (kind === ValueKind.none) variables.set(name, ValueKind.null);
+  }
+
+  return table;
+}
+
+function getExternalVariables(nodes: SyntaxNode[]) {
+  const names = new Set<string>();
+
+  for (const node of nodes) {
+    if (!(node instanceof CommentLine)) continue;
+    if (node.docAnnotation?.kind !== "external") continue;
+
+    names.add(node.docAnnotation.variableName);
+  }
+
+  return names;
+}
+
+/** Returns the kinds of the values written by an output parameter. */
+function getWrittenKind(
+  table: TypeTable,
+  node: InstructionNode<unknown>,
+  output: TextToken
+): ValueKind {
+  const getKind = (token: TextToken | undefined) =>
+    token ? table.getTokenKind(token) : ValueKind.any;
+
+  if (node instanceof SetInstruction) return getKind(node.data.value);
+
+  if (node instanceof SelectInstruction) {
+    const { data } = node;
+    if (data.$type === "unknown") return ValueKind.any;
+    if (data.$type === "always") return getKind(data.value);
+
+    return getKind(data.whenTrue) | getKind(data.whenFalse);
+  }
+
+  if (node instanceof SensorInstruction) {
+    const { property } = node.data;
+    if (!property?.isIdentifier()) return ValueKind.any;
+
+    // the sensed property is stored in a variable
+    if (!property.content.startsWith("@")) return ValueKind.any;
+
+    // sensing an item or liquid returns its amount
+    return sensorKinds[property.content] ?? ValueKind.number;
+  }
+
+  if (node instanceof ReadInstruction || node instanceof GetFlagInstruction) {
+    return ValueKind.any;
+  }
+
+  if (node instanceof GetLinkInstruction) {
+    return ValueKind.building | ValueKind.null;
+  }
+
+  if (
+    node instanceof RadarInstruction ||
+    node instanceof UnitRadarinstruction ||
+    node instanceof SpawnUnitInstruction
+  ) {
+    return ValueKind.unit | ValueKind.null;
+  }
+
+  if (node instanceof LookupInstruction) {
+    return node.data.$type === "team"
+      ? ValueKind.team | ValueKind.null
+      : ValueKind.content | ValueKind.null;
+  }
+
+  if (node instanceof PackColorInstruction) return ValueKind.color;
+
+  if (node instanceof UnitLocateInstruction) {
+    const { data } = node;
+    if (data.$type === "unknown" || data.$type === "ore") {
+      return ValueKind.number;
+    }
+
+    return output === data.building
+      ? ValueKind.building | ValueKind.null
+      : ValueKind.number;
+  }
+
+  if (node instanceof UnitControlInstruction) {
+    const { data } = node;
+    if (data.$type !== "getBlock") return ValueKind.number;
+
+    return output === data.building
+      ? ValueKind.building | ValueKind.null
+      : ValueKind.content | ValueKind.null;
+  }
+
+  if (node instanceof GetBlockInstruction) {
+    switch (node.data.$type) {
+      case "building":
+        return ValueKind.building | ValueKind.null;
+      case "unknown":
+        return ValueKind.any;
+      default:
+        return ValueKind.content | ValueKind.null;
+    }
+  }
+
+  if (node instanceof FetchInstruction) {
+    switch (node.data.$type) {
+      case "unit":
+      case "player":
+        return ValueKind.unit | ValueKind.null;
+      case "core":
+      case "build":
+        return ValueKind.building | ValueKind.null;
+      case "unknown":
+        return ValueKind.any;
+      default:
+        return ValueKind.number;
+    }
+  }
+
+  // the rest of the instructions only output numbers
+  return ValueKind.number;
+}
@@ -1,5 +1,9 @@
-import { DiagnosticSeverity, DiagnosticTag } from "vscode-languageserver";
-import { ignoreToken, maxLabelCount } from "../constants";
+import {
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Range,
+} from "vscode-languageserver";
+import { ignoreToken } from "../constants";
 import { DiagnosingContext } from "./diagnosing_context";
 import {
   InstructionNode,
@@ -10,6 +14,18 @@ import { DiagnosticCode } from "../lsp/protocol";
 import { getSpellingSuggestionForName } from "../util/spelling";
 import { ParameterType, ParameterUsage } from "../parser/descriptors";
 import { AnalysisUnit } from "./analysis_unit";
+import { findUninitializedReads } from "./initialization";
+import { TextToken } from "../parser/tokens";
+import { processorTypes } from "./processor_profile";
+import { HeaderDirective } from "./header_directives";
+import {
+  GameVersion,
+  gameVersions,
+  getConstantVersion,
+  getInstructionVersion,
+  getVariantVersion,
+  isAvailableIn,
+} from "./game_version";
 
 export function validateLabelUsage(
   unit: AnalysisUnit,
@@ -17,6 +33,7 @@ export function validateLabelUsage(
 ) {
   let instructionCount = 0;
   let labelCount = 0;
+  const { maxLabelCount } = unit.limits;
   const nodes = unit.nodes;
   const labels = new Map<string, LabelDeclaration>();
   const unusedLabels = new Map<string, number>();
@@ -213,3 +230,165 @@ export function validateVariableUsage(
     }
   }
 }
+
+export function validateReachability(
+  unit: AnalysisUnit,
+  context: DiagnosingContext
+) {
+  const { nodes, controlFlowGraph: graph } = unit;
+
+  /** The node indexes of the first and last instructions of the current run */
+  let run: { start: number; end: number } | undefined;
+
+  const report = () => {
+    if (!run) return;
+
+    const { start, end } = run;
+    run = undefined;
+
+    context.addDiagnostic(start, {
+      range: Range.create(nodes[start].start, nodes[end].end),
+      message: "Unreachable code detected",
+      severity: DiagnosticSeverity.Warning,
+      code: DiagnosticCode.unreachableCode,
+      tags: [DiagnosticTag.Unnecessary],
+    });
+  };
+
+  let address = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+
+    // runs don't cross label declarations, that way
+    // removing the unreachable code never removes a label
+    if (node instanceof LabelDeclaration) {
+      report();
+      continue;
+    }
+
+    if (!(node instanceof InstructionNode)) continue;
+
+    if (graph.isReachable(address++)) {
+      report();
+      continue;
+    }
+
+    if (run) {
+      run.end = i;
+    } else {
+      run = { start: i, end: i };
+    }
+  }
+
+  report();
+}
+
+export function validateVariableInitialization(
+  unit: AnalysisUnit,
+  context: DiagnosingContext
+) {
+  for (const { nodeIndex, token } of findUninitializedReads(unit)) {
+    context.addDiagnostic(nodeIndex, {
+      range: token,
+      message: `Variable '${token.content}' may be read before it is initialized. Its value will be null on the first run.`,
+      severity: DiagnosticSeverity.Warning,
+      code: DiagnosticCode.possiblyUninitialized,
+    });
+  }
+}
+
+export function validateHeaderDirectives(
+  unit: AnalysisUnit,
+  context: DiagnosingContext
+) {
+  validateHeaderDirective(
+    context,
+    unit.processorDirective,
+    "processor type",
+    processorTypes
+  );
+  validateHeaderDirective(
+    context,
+    unit.versionDirective,
+    "game version",
+    gameVersions
+  );
+}
+
+function validateHeaderDirective(
+  context: DiagnosingContext,
+  directive: HeaderDirective | undefined,
+  kind: string,
+  values: string[]
+) {
+  if (!directive || values.includes(directive.value)) return;
+
+  let message = directive.value
+    ? `Unknown ${kind}: ${directive.value}`
+    : `This directive must specify a ${kind}`;
+
+  const suggestion = getSpellingSuggestionForName(directive.value, values);
+  if (directive.value && suggestion) {
+    message += `. Did you mean '${suggestion}'?`;
+  }
+
+  context.addDiagnostic(directive.nodeIndex, {
+    range: Range.create(directive.start, directive.end),
+    message,
+    severity: DiagnosticSeverity.Error,
+    code: DiagnosticCode.invalidHeaderDirective,
+  });
+}
+
+export function validateVersionCompatibility(
+  unit: AnalysisUnit,
+  context: DiagnosingContext
+) {
+  const target = unit.version;
+  const nodes = unit.nodes;
+
+  const check = (
+    nodeIndex: number,
+    token: TextToken,
+    description: string,
+    required: GameVersion | undefined
+  ) => {
+    if (!required || isAvailableIn(required, target)) return;
+
+    context.addDiagnostic(nodeIndex, {
+      range: token,
+      message: `${description} requires Mindustry ${required}, but this file targets ${target}`,
+      severity: DiagnosticSeverity.Error,
+      code: DiagnosticCode.versionMismatch,
+    });
+  };
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (!(node instanceof InstructionNode)) continue;
+
+    const [nameToken] = node.line.tokens;
+    const name = nameToken.content;
+    check(
+      i,
+      nameToken,
+      `The '${name}' instruction`,
+      getInstructionVersion(name)
+    );
+
+    // overloaded instructions store the token of their variant
+    const { typeToken } = node.data as { typeToken?: TextToken };
+    if (typeToken) {
+      check(
+        i,
+        typeToken,
+        `'${name} ${typeToken.content}'`,
+        getVariantVersion(name, typeToken.content)
+      );
+    }
+
+    for (const { token } of node.parameters) {
+      check(i, token, `'${token.content}'`, getConstantVersion(token.content));
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * The kinds of values that a variable can hold at runtime. A variable that may
+ * hold more than one kind of value has multiple flags set.
+ */
+export enum ValueKind {
+  none = 0,
+  number = 1 << 0,
+  string = 1 << 1,
+  null = 1 << 2,
+  building = 1 << 3,
+  unit = 1 << 4,
+  /** An item, liquid, block or unit type. */
+  content = 1 << 5,
+  team = 1 << 6,
+  color = 1 << 7,
+  any = (1 << 8) - 1,
+}
+
+const valueKindNames: [ValueKind, string][] = [
+  [ValueKind.number, "number"],
+  [ValueKind.string, "string"],
+  [ValueKind.building, "building"],
+  [ValueKind.unit, "unit"],
+  [ValueKind.content, "content"],
+  [ValueKind.team, "team"],
+  [ValueKind.color, "color"],
+  [ValueKind.null, "null"],
+];
+
+/** Formats the possible kinds of a value, e.g. `unit | null`. */
+export function formatValueKind(kind: ValueKind): string {
+  if (kind === ValueKind.any) return "unknown";
+
+  return valueKindNames
+    .filter(([flag]) => kind & flag)
+    .map(([, name]) => name)
+    .join(" | ");
+}
@@ -12,6 +12,14 @@ import { MlogDocument } from "./document";
 import { pathToFileURL } from "url";
 import { getDocumentDiagnostics } from "./lsp/diagnostics";
 import pc from "picocolors";
+import { Processor } from "./emulator/processor";
+import { createLinksFromFixture } from "./emulator/fixture";
+import { LogicDisplay, MessageBlock } from "./emulator/buildings";
+import { formatValue } from "./emulator/values";
+import { renderDisplayFrames } from "./emulator/renderer";
+import * as path from "path";
+import { findMlogFiles, loadConfigForFile, readFileFromUri } from "./node";
+import { MlogConfig } from "./config";
 
 // eslint-disable-next-line @typescript-eslint/no-floating-promises
 yargs(hideBin(process.argv))
@@ -63,7 +71,11 @@ yargs(hideBin(process.argv))
         console.log = (...args: unknown[]) => console.warn(...args);
       }
 
-      startServer({ connection });
+      startServer({
+        connection,
+        readFile: readFileFromUri,
+        findFiles: findMlogFiles,
+      });
     }
   )
   .command(
@@ -81,9 +93,13 @@ yargs(hideBin(process.argv))
           desc: "The level of diagnostics to report",
           default: "info",
           choices: ["hint", "info", "warning", "error"],
+        })
+        .option("config", {
+          type: "string",
+          desc: "The configuration file to use, instead of the closest mlogls.json",
         });
     },
-    (args) => {
+    async (args) => {
       const { file } = args;
 
       if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
@@ -95,6 +111,7 @@ yargs(hideBin(process.argv))
       const content = fs.readFileSync(file, "utf8");
       const doc = new MlogDocument(uri, "mlog", 0, content);
 
+      doc.config = await loadConfig(uri, args.config);
       const diagnostics = getDocumentDiagnostics(doc);
 
       // diagnostics are not perfectly sorted because some are only
@@ -126,11 +143,152 @@ yargs(hideBin(process.argv))
       process.exit(hasErrors ? 1 : 0);
     }
   )
+  .command(
+    "run <file>",
+    "Run a file in a headless processor",
+    (yargs) => {
+      return yargs
+        .positional("file", {
+          type: "string",
+          desc: "The file to run",
+          demandOption: true,
+        })
+        .option("ticks", {
+          type: "number",
+          desc: "The maximum number of ticks to run",
+          default: 600,
+        })
+        .option("ipt", {
+          type: "number",
+          desc: "The number of instructions executed per tick, defaults to the one of the processor type",
+        })
+        .option("links", {
+          type: "string",
+          desc: "A JSON file describing the buildings linked to the processor",
+        })
+        .option("frames", {
+          type: "string",
+          desc: "A directory to save the frames drawn to each display as SVG files",
+        })
+        .option("config", {
+          type: "string",
+          desc: "The configuration file to use, instead of the closest mlogls.json",
+        });
+    },
+    async (args) => {
+      const { file } = args;
+
+      if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+        console.error(pc.red(`Error: File does not exist at path: ${file}`));
+        process.exit(1);
+      }
+
+      let links;
+      try {
+        links = args.links
+          ? createLinksFromFixture(
+              JSON.parse(fs.readFileSync(args.links, "utf8"))
+            )
+          : [];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(pc.red(`Error: Invalid links fixture: ${message}`));
+        process.exit(1);
+      }
+
+      const uri = pathToFileURL(file).toString();
+      const content = fs.readFileSync(file, "utf8");
+      const doc = new MlogDocument(uri, "mlog", 0, content);
+      doc.config = await loadConfig(uri, args.config);
+
+      const processor = new Processor(doc.nodes, {
+        ipt: args.ipt ?? doc.unit.processor.instructionsPerTick,
+        links,
+      });
+
+      while (!processor.stopped && !processor.ended) {
+        if (processor.tickFinished && processor.ticks >= args.ticks) break;
+
+        processor.step();
+      }
+
+      let status = "reached the tick limit";
+      if (processor.stopped) status = "stopped";
+      else if (processor.ended) status = "ended";
+
+      console.log(pc.gray(`Ran for ${processor.ticks} ticks, ${status}\n`));
+
+      for (const link of links) {
+        if (!(link instanceof MessageBlock) || link.flushCount === 0) continue;
+
+        console.log(pc.blue(`${link.linkName}:`));
+        console.log(link.text + "\n");
+      }
+
+      console.log(pc.blue("variables:"));
+      for (const variable of processor.variables.values()) {
+        if (variable.constant) continue;
+
+        console.log(`${variable.name} = ${formatValue(variable.value)}`);
+      }
+
+      const framesDir = args.frames;
+      if (!framesDir) return;
+
+      fs.mkdirSync(framesDir, { recursive: true });
+
+      for (const link of links) {
+        if (!(link instanceof LogicDisplay) || link.frames.length === 0)
+          continue;
+
+        const frames = renderDisplayFrames(link);
+        frames.forEach((frame, i) => {
+          const name = `${link.linkName}-${i + 1}.svg`;
+          fs.writeFileSync(path.join(framesDir, name), frame);
+        });
+
+        console.log(
+          pc.gray(`\nSaved ${frames.length} frames of ${link.linkName}`)
+        );
+      }
+    }
+  )
   .version()
   .help()
   .scriptName("mlogls")
   .parse();
 
+/**
+ * Loads the configuration that applies to a file, exiting the process if it is
+ * not valid.
+ */
+async function loadConfig(
+  uri: string,
+  configPath: string | undefined
+): Promise<MlogConfig> {
+  if (configPath) {
+    if (!fs.existsSync(configPath) || !fs.statSync(configPath).isFile()) {
+      console.error(
+        pc.red(
+          `Error: Configuration file does not exist at path: ${configPath}`
+        )
+      );
+      process.exit(1);
+    }
+  }
+
+  try {
+    return await loadConfigForFile(
+      uri,
+      configPath && pathToFileURL(configPath).toString()
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(pc.red(`Error: ${message}`));
+    process.exit(1);
+  }
+}
+
 function stringToDiagnosticSeverity(level: string): DiagnosticSeverity {
   switch (level) {
     case "hint":
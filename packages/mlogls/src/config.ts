@@ -0,0 +1,357 @@
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { DiagnosticCode, isIgnorableDiagnosticCode } from "./lsp/protocol";
+import {
+  ProcessorProfile,
+  ProcessorType,
+  isProcessorType,
+  processorTypes,
+} from "./analysis/processor_profile";
+import {
+  GameVersion,
+  gameVersions,
+  isGameVersion,
+  latestGameVersion,
+} from "./analysis/game_version";
+
+/** The name of the project configuration file. */
+export const configFileName = "mlogls.json";
+
+export type SeverityName = "error" | "warning" | "info" | "hint" | "off";
+
+/**
+ * The contents of a `mlogls.json` file.
+ *
+ * ```json
+ * {
+ *   "diagnostics": {
+ *     "prefer-jump-labels": "warning",
+ *     "undefined-variable": "error"
+ *   },
+ *   "disabledRules": ["unused-variable"],
+ *   "processor": "logic",
+ *   "version": "v7",
+ *   "limits": {
+ *     "maxInstructionCount": 1000,
+ *     "world": { "maxLabelCount": 800 }
+ *   },
+ *   "formatter": { "tabSize": 2, "insertSpaces": true }
+ * }
+ * ```
+ */
+export interface ConfigFile {
+  /** Overrides the severity of diagnostics, `"off"` disables them. */
+  diagnostics?: Partial<Record<DiagnosticCode, SeverityName>>;
+  /** Diagnostic codes that are disabled in every file. */
+  disabledRules?: DiagnosticCode[];
+  /**
+   * The processor type files are written for, unless they have a `#
+   * mlogls-processor` directive.
+   */
+  processor?: ProcessorType;
+  /**
+   * The game version files are written for, unless they have a `#
+   * mlogls-version` directive.
+   */
+  version?: GameVersion;
+  /**
+   * Limits of every processor type, which can also be set for specific
+   * processor types.
+   */
+  limits?: ProcessorLimits & Partial<Record<ProcessorType, ProcessorLimits>>;
+  formatter?: FormatterConfig;
+}
+
+export interface ProcessorLimits {
+  maxInstructionCount?: number;
+  maxLabelCount?: number;
+}
+
+/** Formatting options that take precedence over the ones sent by the editor. */
+export interface FormatterConfig {
+  tabSize?: number;
+  insertSpaces?: boolean;
+  insertFinalNewline?: boolean;
+  alignComments?: boolean;
+  alignParameters?: boolean;
+  splitStatements?: boolean;
+  blankLinesBetweenScopes?: number;
+  maxBlankLines?: number;
+}
+
+/** The configuration used to analyze and format a document. */
+export interface MlogConfig {
+  /**
+   * The severity of diagnostic codes that were overridden. Codes mapped to
+   * `null` are disabled.
+   */
+  severities: Map<DiagnosticCode, DiagnosticSeverity | null>;
+  processor: ProcessorType;
+  version: GameVersion;
+  /** Limits that apply to every processor type. */
+  limits: ProcessorLimits;
+  /** Limits of specific processor types, which take precedence over `limits`. */
+  processorLimits: Partial<Record<ProcessorType, ProcessorLimits>>;
+  formatter: FormatterConfig;
+}
+
+export const defaultConfig: MlogConfig = {
+  severities: new Map(),
+  processor: "logic",
+  version: latestGameVersion,
+  limits: {},
+  processorLimits: {},
+  formatter: {},
+};
+
+const severityNames: Record<SeverityName, DiagnosticSeverity | null> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+  off: null,
+};
+
+/**
+ * Creates a configuration from the parsed contents of a `mlogls.json` file.
+ * Throws an error if the file is not valid.
+ */
+export function parseConfig(json: unknown): MlogConfig {
+  if (!isRecord(json)) throw new Error("The configuration must be an object");
+
+  const file = json as ConfigFile;
+  const config: MlogConfig = {
+    severities: new Map(),
+    processor: "logic",
+    version: latestGameVersion,
+    limits: {},
+    processorLimits: {},
+    formatter: {},
+  };
+
+  if (file.diagnostics !== undefined) {
+    if (!isRecord(file.diagnostics))
+      throw new Error("'diagnostics' must be an object");
+
+    for (const [code, name] of Object.entries(file.diagnostics)) {
+      if (!isIgnorableDiagnosticCode(code))
+        throw new Error(`'${code}' is not a configurable diagnostic code`);
+      if (typeof name !== "string" || !(name in severityNames))
+        throw new Error(
+          `The severity of '${code}' must be one of: ${Object.keys(severityNames).join(", ")}`
+        );
+
+      config.severities.set(code, severityNames[name]);
+    }
+  }
+
+  if (file.disabledRules !== undefined) {
+    if (!Array.isArray(file.disabledRules))
+      throw new Error("'disabledRules' must be an array");
+
+    for (const code of file.disabledRules) {
+      if (!isIgnorableDiagnosticCode(code))
+        throw new Error(
+          `'${String(code)}' is not a configurable diagnostic code`
+        );
+
+      config.severities.set(code, null);
+    }
+  }
+
+  if (file.processor !== undefined) {
+    if (!isProcessorType(file.processor))
+      throw new Error(
+        `'processor' must be one of: ${processorTypes.join(", ")}`
+      );
+
+    config.processor = file.processor;
+  }
+
+  if (file.version !== undefined) {
+    if (!isGameVersion(file.version))
+      throw new Error(`'version' must be one of: ${gameVersions.join(", ")}`);
+
+    config.version = file.version;
+  }
+
+  if (file.limits !== undefined) {
+    if (!isRecord(file.limits)) throw new Error("'limits' must be an object");
+
+    config.limits = parseLimits(file.limits, "limits");
+
+    for (const type of processorTypes) {
+      const limits = file.limits[type];
+      if (limits === undefined) continue;
+      if (!isRecord(limits))
+        throw new Error(`'limits.${type}' must be an object`);
+
+      config.processorLimits[type] = parseLimits(limits, `limits.${type}`);
+    }
+  }
+
+  if (file.formatter !== undefined) {
+    const { formatter } = file;
+    if (!isRecord(formatter)) throw new Error("'formatter' must be an object");
+
+    if (formatter.tabSize !== undefined) {
+      if (!isPositiveInteger(formatter.tabSize))
+        throw new Error("'formatter.tabSize' must be a positive integer");
+
+      config.formatter.tabSize = formatter.tabSize;
+    }
+
+    for (const key of ["blankLinesBetweenScopes", "maxBlankLines"] as const) {
+      const value = formatter[key];
+      if (value === undefined) continue;
+      if (!isNonNegativeInteger(value))
+        throw new Error(`'formatter.${key}' must be a non-negative integer`);
+
+      config.formatter[key] = value;
+    }
+
+    for (const key of [
+      "insertSpaces",
+      "insertFinalNewline",
+      "alignComments",
+      "alignParameters",
+      "splitStatements",
+    ] as const) {
+      const value = formatter[key];
+      if (value === undefined) continue;
+      if (typeof value !== "boolean")
+        throw new Error(`'formatter.${key}' must be a boolean`);
+
+      config.formatter[key] = value;
+    }
+  }
+
+  return config;
+}
+
+/** Returns the limits of a processor, with the overrides of the configuration. */
+export function getProcessorLimits(
+  config: MlogConfig,
+  profile: ProcessorProfile
+): Required<ProcessorLimits> {
+  const limits = config.processorLimits[profile.type];
+
+  return {
+    maxInstructionCount:
+      limits?.maxInstructionCount ??
+      config.limits.maxInstructionCount ??
+      profile.maxInstructionCount,
+    maxLabelCount:
+      limits?.maxLabelCount ??
+      config.limits.maxLabelCount ??
+      profile.maxLabelCount,
+  };
+}
+
+/**
+ * Finds the configuration file that applies to a document, which is the closest
+ * `mlogls.json` in the directory of the document or in one of its parents.
+ *
+ * Returns the uri of the configuration file and its contents, or `undefined` if
+ * there is none.
+ */
+export async function findConfigFile(
+  documentUri: string,
+  readFile: (uri: string) => Promise<string | undefined>
+): Promise<{ uri: string; content: string } | undefined> {
+  for (const directory of getParentDirectories(documentUri)) {
+    const uri = directory + configFileName;
+    const content = await readFile(uri);
+
+    if (content !== undefined) return { uri, content };
+  }
+}
+
+/**
+ * Caches the configuration of each directory, so that the configuration files
+ * are only read again after they change.
+ */
+export class ConfigCache {
+  #configs = new Map<string, Promise<MlogConfig>>();
+
+  constructor(
+    private readonly readFile: (uri: string) => Promise<string | undefined>,
+    /** Called when a configuration file cannot be parsed. */
+    private readonly onError: (uri: string, message: string) => void
+  ) {}
+
+  getConfig(documentUri: string): Promise<MlogConfig> {
+    const [directory] = getParentDirectories(documentUri);
+    if (directory === undefined) return Promise.resolve(defaultConfig);
+
+    let config = this.#configs.get(directory);
+    if (!config) {
+      config = this.#load(documentUri);
+      this.#configs.set(directory, config);
+    }
+
+    return config;
+  }
+
+  clear() {
+    this.#configs.clear();
+  }
+
+  async #load(documentUri: string) {
+    const file = await findConfigFile(documentUri, this.readFile);
+    if (!file) return defaultConfig;
+
+    try {
+      return parseConfig(JSON.parse(file.content));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.onError(file.uri, message);
+      return defaultConfig;
+    }
+  }
+}
+
+/** Lists the directories containing a file, starting from the closest one. */
+function getParentDirectories(uri: string): string[] {
+  if (!uri.startsWith("file:")) return [];
+
+  const directories: string[] = [];
+  const rootEnd = "file://".length;
+  let end = uri.lastIndexOf("/");
+
+  while (end >= rootEnd) {
+    directories.push(uri.slice(0, end + 1));
+    end = uri.lastIndexOf("/", end - 1);
+  }
+
+  return directories;
+}
+
+function parseLimits(
+  limits: Record<string, unknown>,
+  path: string
+): ProcessorLimits {
+  const result: ProcessorLimits = {};
+
+  for (const key of ["maxInstructionCount", "maxLabelCount"] as const) {
+    const value = limits[key];
+    if (value === undefined) continue;
+    if (!isPositiveInteger(value))
+      throw new Error(`'${path}.${key}' must be a positive integer`);
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
@@ -0,0 +1,578 @@
+import { getCounterOffset, writesToCounter } from "../analysis/control_flow";
+import { MlogConfig } from "../config";
+import { MlogDocument } from "../document";
+import { Building, MemoryCell, MessageBlock } from "../emulator/buildings";
+import { createLinksFromFixture } from "../emulator/fixture";
+import { Processor } from "../emulator/processor";
+import { MlogValue, formatValue } from "../emulator/values";
+import { JumpInstruction } from "../parser/nodes";
+import type {
+  Breakpoint,
+  EvaluateArguments,
+  Event,
+  InitializeArguments,
+  LaunchArguments,
+  ProtocolMessage,
+  Request,
+  Response,
+  Scope,
+  SetBreakpointsArguments,
+  StackFrame,
+  StoppedReason,
+  Variable,
+  VariablesArguments,
+} from "./protocol";
+
+export interface DebugAdapterOptions {
+  /** Sends a response or an event to the client. */
+  sendMessage(message: ProtocolMessage): void;
+  /** Reads the program and links fixtures given in the launch arguments. */
+  readFile(path: string): Promise<string>;
+  /**
+   * Loads the configuration that applies to the program, which sets its
+   * processor type. The default configuration is used when this is not
+   * provided.
+   */
+  loadConfig?(path: string): Promise<MlogConfig>;
+}
+
+/**
+ * A debug adapter that runs mlog programs in the emulator. It is transport
+ * agnostic, so it can be used as an inline debug adapter by editors.
+ */
+export interface DebugAdapter {
+  handleMessage(message: ProtocolMessage): void;
+  dispose(): void;
+}
+
+export function startDebugAdapter(options: DebugAdapterOptions): DebugAdapter {
+  return new DebugSession(options);
+}
+
+const threadId = 1;
+const frameId = 1;
+
+/** How many instructions are executed before yielding to the event loop. */
+const stepsPerBatch = 10_000;
+
+// variable references of the scopes
+const localsReference = 1;
+const processorReference = 2;
+const linksReference = 3;
+
+/** Variable references above this value refer to linked buildings. */
+const linkReferenceOffset = 100;
+
+type RunCondition = (previousAddress: number) => boolean;
+
+class DebugSession implements DebugAdapter {
+  #options: DebugAdapterOptions;
+  #seq = 1;
+  #lineOffset = 0;
+  #columnOffset = 0;
+
+  #program = "";
+  #document?: MlogDocument;
+  #processor?: Processor;
+  #noDebug = false;
+
+  #breakpoints = new Set<number>();
+  #flushCounts = new Map<MessageBlock, number>();
+  #running = false;
+  #pauseRequested = false;
+  #disposed = false;
+
+  #configurationDone: Promise<void>;
+  #resolveConfigurationDone!: () => void;
+
+  constructor(options: DebugAdapterOptions) {
+    this.#options = options;
+    this.#configurationDone = new Promise((resolve) => {
+      this.#resolveConfigurationDone = resolve;
+    });
+  }
+
+  handleMessage(message: ProtocolMessage) {
+    if (message.type !== "request") return;
+
+    void this.#handleRequest(message as Request);
+  }
+
+  dispose() {
+    this.#disposed = true;
+  }
+
+  async #handleRequest(request: Request) {
+    try {
+      const body = await this.#dispatch(request);
+      this.#respond(request, body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.#respond(request, undefined, message);
+    }
+
+    if (request.command === "launch" && this.#processor) {
+      // the program is loaded, so breakpoints can be verified
+      this.#sendEvent("initialized");
+    }
+  }
+
+  async #dispatch(request: Request): Promise<unknown> {
+    const args = request.arguments;
+
+    switch (request.command) {
+      case "initialize":
+        return this.#initialize(args as InitializeArguments);
+      case "launch":
+        return this.#launch(args as LaunchArguments);
+      case "setBreakpoints":
+        return this.#setBreakpoints(args as SetBreakpointsArguments);
+      case "configurationDone":
+        this.#resolveConfigurationDone();
+        return;
+      case "threads":
+        return { threads: [{ id: threadId, name: "processor" }] };
+      case "stackTrace":
+        return this.#getStackTrace();
+      case "scopes":
+        return { scopes: this.#getScopes() };
+      case "variables":
+        return { variables: this.#getVariables(args as VariablesArguments) };
+      case "evaluate":
+        return this.#evaluate(args as EvaluateArguments);
+      case "continue":
+        this.#start(() => false);
+        return { allThreadsContinued: true };
+      case "next":
+        this.#stepOver();
+        return;
+      case "stepIn":
+        this.#start(() => true);
+        return;
+      case "stepOut":
+        this.#stepOut();
+        return;
+      case "pause":
+        this.#pauseRequested = true;
+        return;
+      case "disconnect":
+      case "terminate":
+        this.dispose();
+        return;
+    }
+
+    throw new Error(`Unsupported request: ${request.command}`);
+  }
+
+  #initialize(args: InitializeArguments) {
+    this.#lineOffset = args.linesStartAt1 === false ? 0 : 1;
+    this.#columnOffset = args.columnsStartAt1 === false ? 0 : 1;
+
+    return {
+      supportsConfigurationDoneRequest: true,
+      supportsEvaluateForHovers: true,
+      supportsTerminateRequest: true,
+    };
+  }
+
+  async #launch(args: LaunchArguments) {
+    const content = await this.#options.readFile(args.program);
+
+    let links: Building[] = [];
+    if (typeof args.links === "string") {
+      const fixture = await this.#options.readFile(args.links);
+      links = createLinksFromFixture(JSON.parse(fixture));
+    } else if (args.links) {
+      links = createLinksFromFixture(args.links);
+    }
+
+    const document = new MlogDocument(args.program, "mlog", 0, content);
+    if (this.#options.loadConfig) {
+      document.config = await this.#options.loadConfig(args.program);
+    }
+
+    const processor = new Processor(document.nodes, {
+      ipt: args.ipt ?? document.unit.processor.instructionsPerTick,
+      links,
+    });
+
+    // an empty program would never stop running
+    if (processor.instructions.length === 0) {
+      throw new Error(
+        `${getFileName(args.program)} has no instructions to run`
+      );
+    }
+
+    this.#program = args.program;
+    this.#noDebug = args.noDebug ?? false;
+    this.#document = document;
+    this.#processor = processor;
+
+    void this.#configurationDone.then(nextTask).then(() => {
+      if (args.stopOnEntry && !this.#noDebug) {
+        this.#sendStopped("entry");
+      } else {
+        this.#start(() => false);
+      }
+    });
+  }
+
+  #setBreakpoints(args: SetBreakpointsArguments) {
+    const requested = args.breakpoints ?? [];
+    const processor = this.#processor;
+
+    // breakpoints are only supported in the program being debugged
+    if (!processor || args.source.path !== this.#program) {
+      return {
+        breakpoints: requested.map((): Breakpoint => ({
+          verified: false,
+          message: "Not running",
+        })),
+      };
+    }
+
+    this.#breakpoints.clear();
+
+    const breakpoints = requested.map((breakpoint): Breakpoint => {
+      const line = breakpoint.line - this.#lineOffset;
+
+      // breakpoints on labels and comments move to the next instruction
+      const address = processor.instructions.findIndex(
+        (node) => node.start.line >= line
+      );
+
+      if (address === -1) {
+        return { verified: false, message: "No instruction at this line" };
+      }
+
+      this.#breakpoints.add(address);
+      return {
+        verified: true,
+        line: processor.instructions[address].start.line + this.#lineOffset,
+      };
+    });
+
+    return { breakpoints };
+  }
+
+  #getStackTrace() {
+    const processor = this.#processor;
+    if (!processor || processor.instructions.length === 0)
+      return { stackFrames: [], totalFrames: 0 };
+
+    const address = processor.address;
+    const node = processor.instructions[address];
+    const frame: StackFrame = {
+      id: frameId,
+      name: `${address}: ${node.line.tokens[0].content}`,
+      source: { name: getFileName(this.#program), path: this.#program },
+      line: node.start.line + this.#lineOffset,
+      column: node.start.character + this.#columnOffset,
+      instructionPointerReference: String(address),
+    };
+
+    return { stackFrames: [frame], totalFrames: 1 };
+  }
+
+  #getScopes(): Scope[] {
+    const processor = this.#processor;
+    if (!processor) return [];
+
+    return [
+      {
+        name: "Variables",
+        presentationHint: "locals",
+        variablesReference: localsReference,
+        expensive: false,
+      },
+      {
+        name: "Processor",
+        presentationHint: "registers",
+        variablesReference: processorReference,
+        expensive: false,
+      },
+      {
+        name: "Links",
+        variablesReference: linksReference,
+        namedVariables: processor.links.length,
+        expensive: false,
+      },
+    ];
+  }
+
+  #getVariables(args: VariablesArguments): Variable[] {
+    const processor = this.#processor;
+    const document = this.#document;
+    if (!processor || !document) return [];
+
+    const reference = args.variablesReference;
+
+    switch (reference) {
+      case localsReference: {
+        const variables: Variable[] = [];
+
+        for (const symbol of document.unit.symbolTable.localValues()) {
+          if (symbol.isBuildingLink) continue;
+
+          const value = processor.variables.get(symbol.name)?.value ?? null;
+          variables.push(this.#createVariable(symbol.name, value));
+        }
+
+        return variables;
+      }
+      case processorReference:
+        return [
+          this.#createVariable("@counter", processor.counter.value),
+          this.#createVariable("@ipt", processor.ipt),
+          this.#createVariable("@tick", processor.ticks),
+          this.#createVariable("text buffer", processor.textBuffer),
+          this.#createVariable("draw buffer", processor.drawBuffer.length),
+        ];
+      case linksReference:
+        return processor.links.map((link) => ({
+          ...this.#createVariable(link.linkName, link),
+          value: link.block,
+        }));
+    }
+
+    const link = processor.links[reference - linkReferenceOffset];
+    if (link instanceof MemoryCell) {
+      const start = args.start ?? 0;
+      const end = Math.min(
+        link.memory.length,
+        args.count ? start + args.count : link.memory.length
+      );
+
+      const variables: Variable[] = [];
+      for (let i = start; i < end; i++) {
+        variables.push({
+          name: String(i),
+          value: formatValue(link.memory[i]),
+          variablesReference: 0,
+          evaluateName: `${link.linkName}[${i}]`,
+        });
+      }
+
+      return variables;
+    }
+
+    if (link instanceof MessageBlock) {
+      return [this.#createVariable("text", link.text)];
+    }
+
+    return [];
+  }
+
+  #createVariable(name: string, value: MlogValue): Variable {
+    const variable: Variable = {
+      name,
+      value: formatValue(value),
+      variablesReference: 0,
+      evaluateName: name,
+    };
+
+    const processor = this.#processor;
+    if (!(value instanceof Building) || !processor) return variable;
+
+    const index = processor.links.indexOf(value);
+    if (index === -1) return variable;
+
+    if (value instanceof MemoryCell) {
+      variable.variablesReference = linkReferenceOffset + index;
+      variable.indexedVariables = value.memory.length;
+    } else if (value instanceof MessageBlock) {
+      variable.variablesReference = linkReferenceOffset + index;
+      variable.namedVariables = 1;
+    }
+
+    return variable;
+  }
+
+  #evaluate(args: EvaluateArguments) {
+    const processor = this.#processor;
+    if (!processor) throw new Error("The program is not running");
+
+    const expression = args.expression.trim();
+
+    // memory access, like cell1[3]
+    const match = /^(\S+)\[(\d+)\]$/.exec(expression);
+    if (match) {
+      const cell = processor.variables.get(match[1])?.value;
+      if (!(cell instanceof MemoryCell))
+        throw new Error(`'${match[1]}' is not a memory cell`);
+
+      return {
+        result: formatValue(cell.read(Number(match[2]))),
+        variablesReference: 0,
+      };
+    }
+
+    const variable = processor.variables.get(expression);
+    const symbol = this.#document?.unit.symbolTable.get(expression);
+
+    if (!variable && !symbol)
+      throw new Error(`Unknown variable: ${expression}`);
+
+    const { value, variablesReference } = this.#createVariable(
+      expression,
+      variable?.value ?? null
+    );
+
+    return { result: value, variablesReference };
+  }
+
+  #stepOver() {
+    const processor = this.#processor;
+    if (!processor) return;
+
+    const address = processor.address;
+    const node = processor.instructions[address];
+    const previous = processor.instructions[address - 1];
+
+    // subroutine calls follow the convention:
+    // op add ret @counter 1
+    // jump subroutine always
+    const isCall =
+      node instanceof JumpInstruction &&
+      previous &&
+      getCounterOffset(previous) === 1;
+
+    if (!isCall) {
+      this.#start(() => true);
+      return;
+    }
+
+    this.#start(() => processor.address === address + 1);
+  }
+
+  #stepOut() {
+    const processor = this.#processor;
+    if (!processor) return;
+
+    // subroutines return by writing to @counter
+    this.#start((previousAddress) => {
+      return writesToCounter(processor.instructions[previousAddress]);
+    });
+  }
+
+  /**
+   * Runs the program until `shouldStop` returns true, a breakpoint is hit or a
+   * pause is requested. The condition is checked before every instruction,
+   * except the first one.
+   */
+  #start(shouldStop: RunCondition) {
+    if (this.#running) return;
+
+    this.#running = true;
+    this.#pauseRequested = false;
+
+    void this.#run(shouldStop).finally(() => {
+      this.#running = false;
+    });
+  }
+
+  async #run(shouldStop: RunCondition) {
+    const processor = this.#processor;
+    if (!processor) return;
+
+    let previousAddress = -1;
+
+    // the response to the request that started the execution
+    // must be sent before any stopped event
+    await nextTask();
+
+    while (!this.#disposed) {
+      for (let i = 0; i < stepsPerBatch; i++) {
+        if (previousAddress !== -1) {
+          if (!this.#noDebug && shouldStop(previousAddress)) {
+            this.#sendStopped("step");
+            return;
+          }
+
+          if (!this.#noDebug && this.#breakpoints.has(processor.address)) {
+            this.#sendStopped("breakpoint");
+            return;
+          }
+        }
+
+        previousAddress = processor.address;
+        processor.step();
+
+        if (this.#noDebug && (processor.ended || processor.stopped)) {
+          this.#reportMessages();
+          this.#sendEvent("terminated");
+          return;
+        }
+
+        if (processor.stopped) {
+          this.#sendStopped("pause", "Halted by a stop instruction");
+          return;
+        }
+      }
+
+      this.#reportMessages();
+
+      if (this.#pauseRequested) {
+        this.#sendStopped("pause");
+        return;
+      }
+
+      // let other requests, like pause, be handled
+      await nextTask();
+    }
+  }
+
+  /** Sends the text of messages that were flushed since the last report. */
+  #reportMessages() {
+    for (const link of this.#processor?.links ?? []) {
+      if (!(link instanceof MessageBlock)) continue;
+
+      const count = this.#flushCounts.get(link) ?? 0;
+      if (count === link.flushCount) continue;
+
+      this.#flushCounts.set(link, link.flushCount);
+      this.#sendEvent("output", {
+        category: "stdout",
+        output: `${link.linkName}: ${link.text}\n`,
+      });
+    }
+  }
+
+  #sendStopped(reason: StoppedReason, description?: string) {
+    this.#reportMessages();
+    this.#sendEvent("stopped", {
+      reason,
+      description,
+      threadId,
+      allThreadsStopped: true,
+    });
+  }
+
+  #respond(request: Request, body?: unknown, errorMessage?: string) {
+    const response: Response = {
+      seq: this.#seq++,
+      type: "response",
+      request_seq: request.seq,
+      command: request.command,
+      success: errorMessage === undefined,
+      message: errorMessage,
+      body,
+    };
+
+    this.#options.sendMessage(response);
+  }
+
+  #sendEvent(event: string, body?: unknown) {
+    const message: Event = { seq: this.#seq++, type: "event", event, body };
+
+    this.#options.sendMessage(message);
+  }
+}
+
+function nextTask() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function getFileName(path: string) {
+  return path.split(/[\\/]/).pop() ?? path;
+}
@@ -0,0 +1,121 @@
+// The subset of the debug adapter protocol used by the emulator.
+// See https://microsoft.github.io/debug-adapter-protocol/specification
+
+import type { BuildingFixture } from "../emulator/fixture";
+
+export interface ProtocolMessage {
+  seq: number;
+  type: "request" | "response" | "event";
+}
+
+export interface Request extends ProtocolMessage {
+  type: "request";
+  command: string;
+  arguments?: unknown;
+}
+
+export interface Response extends ProtocolMessage {
+  type: "response";
+  request_seq: number;
+  success: boolean;
+  command: string;
+  message?: string;
+  body?: unknown;
+}
+
+export interface Event extends ProtocolMessage {
+  type: "event";
+  event: string;
+  body?: unknown;
+}
+
+export interface InitializeArguments {
+  linesStartAt1?: boolean;
+  columnsStartAt1?: boolean;
+}
+
+export interface LaunchArguments {
+  /** The path of the file to run. */
+  program: string;
+  /**
+   * The buildings linked to the processor, either as the path of a JSON fixture
+   * or as the fixture itself.
+   */
+  links?: string | Record<string, BuildingFixture>;
+  /**
+   * The number of instructions executed per tick. Defaults to the one of the
+   * processor type of the file.
+   */
+  ipt?: number;
+  /** Whether to pause on the first instruction. */
+  stopOnEntry?: boolean;
+  /** Set by the client when the program is started without debugging. */
+  noDebug?: boolean;
+}
+
+export interface Source {
+  name?: string;
+  path?: string;
+}
+
+export interface SourceBreakpoint {
+  line: number;
+  column?: number;
+}
+
+export interface SetBreakpointsArguments {
+  source: Source;
+  breakpoints?: SourceBreakpoint[];
+}
+
+export interface Breakpoint {
+  id?: number;
+  verified: boolean;
+  message?: string;
+  source?: Source;
+  line?: number;
+  column?: number;
+}
+
+export interface StackFrame {
+  id: number;
+  name: string;
+  source?: Source;
+  line: number;
+  column: number;
+  instructionPointerReference?: string;
+}
+
+export interface Scope {
+  name: string;
+  presentationHint?: "arguments" | "locals" | "registers";
+  variablesReference: number;
+  namedVariables?: number;
+  indexedVariables?: number;
+  expensive: boolean;
+}
+
+export interface VariablesArguments {
+  variablesReference: number;
+  filter?: "indexed" | "named";
+  start?: number;
+  count?: number;
+}
+
+export interface Variable {
+  name: string;
+  value: string;
+  type?: string;
+  variablesReference: number;
+  namedVariables?: number;
+  indexedVariables?: number;
+  evaluateName?: string;
+}
+
+export interface EvaluateArguments {
+  expression: string;
+  frameId?: number;
+  context?: string;
+}
+
+export type StoppedReason = "step" | "breakpoint" | "pause" | "entry";
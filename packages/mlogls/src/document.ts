@@ -1,5 +1,9 @@
 import { TextDocument } from "vscode-languageserver-textdocument";
-import { type ParserDiagnostic, tokenize } from "./parser/tokenize";
+import {
+  type ParserDiagnostic,
+  shiftTokenLine,
+  tokenize,
+} from "./parser/tokenize";
 import {
   Position,
   Range,
@@ -7,6 +11,7 @@ import {
 } from "vscode-languageserver";
 import { getSyntaxNodes } from "./parser/nodes";
 import { AnalysisUnit } from "./analysis/analysis_unit";
+import { MlogConfig } from "./config";
 
 export class MlogDocument implements TextDocument {
   #document: TextDocument;
@@ -58,6 +63,17 @@ export class MlogDocument implements TextDocument {
     return this.#unit;
   }
 
+  /** The configuration used to analyze the document. */
+  get config() {
+    return this.#unit.config;
+  }
+
+  set config(config: MlogConfig) {
+    if (config === this.#unit.config) return;
+
+    this.#unit = this.#unit.withConfig(config);
+  }
+
   getText(range?: Range): string {
     return this.#document.getText(range);
   }
@@ -69,16 +85,107 @@ export class MlogDocument implements TextDocument {
   }
 
   update(changes: TextDocumentContentChangeEvent[], version: number) {
-    TextDocument.update(this.#document, changes, version);
+    if (!this.isMlog) {
+      TextDocument.update(this.#document, changes, version);
+      this.#unit = new AnalysisUnit(this.uri, [], this.config);
+      return;
+    }
 
-    if (this.isMlog) {
-      const { lines, diagnostics } = tokenize(this.getText());
-      const nodes = getSyntaxNodes(lines);
+    for (const change of changes) {
+      // lone carriage returns are line breaks for the text document,
+      // but not for the tokenizer, so the lines can't be matched
+      if (
+        !TextDocumentContentChangeEvent.isIncremental(change) ||
+        /\r(?!\n)/.test(change.text)
+      ) {
+        TextDocument.update(this.#document, [change], version);
+        this.#parse();
+        continue;
+      }
 
-      this.#diagnostics = diagnostics;
-      this.#unit = new AnalysisUnit(this.uri, nodes);
-    } else {
-      this.#unit = new AnalysisUnit(this.uri, []);
+      this.#updateLines(change, version);
     }
   }
+
+  #parse() {
+    const { lines, diagnostics } = tokenize(this.getText());
+    const nodes = getSyntaxNodes(lines);
+
+    this.#diagnostics = diagnostics;
+    this.#unit = new AnalysisUnit(this.uri, nodes, this.config);
+  }
+
+  /**
+   * Tokenizes and parses only the lines affected by a change, then shifts
+   * copies of the nodes after them.
+   */
+  #updateLines(
+    change: TextDocumentContentChangeEvent & { range: Range },
+    version: number
+  ) {
+    const { start, end } = change.range;
+    const newEndLine = start.line + change.text.split("\n").length - 1;
+    const lineDelta = newEndLine - end.line;
+
+    TextDocument.update(this.#document, [change], version);
+
+    const { lines, diagnostics } = tokenize(
+      this.getText(Range.create(start.line, 0, newEndLine + 1, 0)),
+      start.line
+    );
+
+    const nodes = [...this.nodes];
+    let first = 0;
+    while (first < nodes.length && nodes[first].start.line < start.line) {
+      first++;
+    }
+
+    let last = first;
+    while (last < nodes.length && nodes[last].start.line <= end.line) {
+      last++;
+    }
+
+    const before: ParserDiagnostic[] = [];
+    const after: ParserDiagnostic[] = [];
+    for (const diagnostic of this.#diagnostics) {
+      const { line } = diagnostic.range.start;
+      if (line < start.line) before.push(diagnostic);
+      else if (line > end.line) after.push(diagnostic);
+    }
+
+    const added = getSyntaxNodes(lines);
+
+    if (lineDelta !== 0) {
+      // the nodes and diagnostics after the change are copied instead of
+      // being moved in place because the previous unit may still be in use
+      const moved = nodes
+        .slice(last)
+        .map((node) => shiftTokenLine(node.line, lineDelta));
+
+      nodes.splice(last, nodes.length - last, ...getSyntaxNodes(moved));
+
+      for (let i = 0; i < after.length; i++) {
+        const { range } = after[i];
+        after[i] = {
+          ...after[i],
+          range: Range.create(
+            range.start.line + lineDelta,
+            range.start.character,
+            range.end.line + lineDelta,
+            range.end.character
+          ),
+        };
+      }
+    }
+
+    nodes.splice(first, last - first, ...added);
+
+    this.#diagnostics = [...before, ...diagnostics, ...after];
+    this.#unit = this.#unit.withEditedNodes(
+      nodes,
+      first,
+      last - first,
+      added.length
+    );
+  }
 }
@@ -0,0 +1,202 @@
+import { getBlockContent } from "./content";
+import {
+  Content,
+  ContentKind,
+  MlogObject,
+  MlogValue,
+  toNumber,
+} from "./values";
+
+/**
+ * A mock of a building linked to the processor.
+ *
+ * Sensor values that are not computed by the building itself can be set through
+ * {@link Building.sensors}.
+ */
+export class Building extends MlogObject {
+  enabled = true;
+  config: MlogValue = null;
+
+  /**
+   * Values returned by the `sensor` instruction, keyed by the property name
+   * without the `@` prefix, like `health` or `copper`.
+   */
+  sensors = new Map<string, MlogValue>();
+
+  constructor(
+    /** The name of the block, like `memory-cell`. */
+    public block: string,
+    /** The name used to refer to this building in the code, like `cell1`. */
+    public linkName: string,
+    public x = 0,
+    public y = 0
+  ) {
+    super();
+  }
+
+  get name() {
+    return this.block;
+  }
+
+  describe() {
+    return this.linkName || this.block;
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (!(property instanceof Content)) return null;
+
+    switch (property.name) {
+      case "type":
+        return getBlockContent(this.block);
+      case "name":
+        return this.block;
+      case "enabled":
+        return this.enabled ? 1 : 0;
+      case "config":
+        return this.config;
+      case "x":
+        return this.x;
+      case "y":
+        return this.y;
+    }
+
+    const value = this.sensors.get(property.name);
+    if (value !== undefined) return value;
+
+    // buildings report 0 for items and liquids they don't have
+    if (
+      property.kind === ContentKind.item ||
+      property.kind === ContentKind.liquid
+    )
+      return 0;
+
+    return null;
+  }
+}
+
+export class MemoryCell extends Building {
+  memory: Float64Array;
+
+  constructor(block: string, linkName: string, capacity: number) {
+    super(block, linkName);
+    this.memory = new Float64Array(capacity);
+  }
+
+  /** Reads a value like the `read` instruction. */
+  read(address: number): MlogValue {
+    const index = Math.trunc(address);
+    if (index < 0 || index >= this.memory.length) return 0;
+
+    return this.memory[index];
+  }
+
+  /** Writes a value like the `write` instruction. */
+  write(address: number, value: MlogValue) {
+    const index = Math.trunc(address);
+    if (index < 0 || index >= this.memory.length) return;
+
+    this.memory[index] = toNumber(value);
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (property instanceof Content && property.name === "memoryCapacity")
+      return this.memory.length;
+
+    return super.sensor(property);
+  }
+}
+
+export class MessageBlock extends Building {
+  /** The text currently shown by the message. */
+  text = "";
+  /** How many times the text was set by `printflush`. */
+  flushCount = 0;
+
+  flush(text: string) {
+    this.text = text;
+    this.flushCount++;
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (property instanceof Content && property.name === "bufferSize")
+      return this.text.length;
+
+    return super.sensor(property);
+  }
+}
+
+export interface DrawCommand {
+  /** The draw subcommand, like `rect` or `color`. */
+  type: string;
+  /**
+   * The arguments of the subcommand in the order they appear in the code. `draw
+   * print` also receives the printed text as its last argument.
+   */
+  args: MlogValue[];
+}
+
+/** The amount of pixels of each tile of a tiled logic display. */
+export const tileDisplaySize = 32;
+
+export class LogicDisplay extends Building {
+  /** The draw commands of each `drawflush` that targeted this display. */
+  frames: DrawCommand[][] = [];
+
+  constructor(
+    block: string,
+    linkName: string,
+    /** The width of the display, in pixels. */
+    public width: number,
+    /** The height of the display, in pixels. */
+    public height: number
+  ) {
+    super(block, linkName);
+  }
+
+  flush(commands: DrawCommand[]) {
+    this.frames.push(commands);
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (property instanceof Content) {
+      switch (property.name) {
+        case "displayWidth":
+          return this.width;
+        case "displayHeight":
+          return this.height;
+      }
+    }
+
+    return super.sensor(property);
+  }
+}
+
+/**
+ * Creates the mock of a building, using the specialized classes for blocks that
+ * have special behavior in the emulator.
+ */
+export function createBuilding(block: string, linkName: string): Building {
+  switch (block) {
+    case "memory-cell":
+      return new MemoryCell(block, linkName, 64);
+    case "memory-bank":
+    case "world-cell":
+      return new MemoryCell(block, linkName, 512);
+    case "message":
+    case "world-message":
+      return new MessageBlock(block, linkName);
+    case "logic-display":
+      return new LogicDisplay(block, linkName, 80, 80);
+    case "large-logic-display":
+      return new LogicDisplay(block, linkName, 176, 176);
+    case "tile-logic-display":
+      return new LogicDisplay(
+        block,
+        linkName,
+        tileDisplaySize,
+        tileDisplaySize
+      );
+  }
+
+  return new Building(block, linkName);
+}
@@ -0,0 +1,69 @@
+import {
+  blocks,
+  items,
+  liquids,
+  sensors,
+  soundNames,
+  statusEffects,
+  teams,
+  units,
+  weatherNames,
+} from "../constants";
+import { Content, ContentKind, Team } from "./values";
+
+/**
+ * Content lists indexed by their ids, the same ones used by the `lookup`
+ * instruction.
+ */
+export const contentLists = {
+  [ContentKind.item]: createContentList(ContentKind.item, items),
+  [ContentKind.liquid]: createContentList(ContentKind.liquid, liquids),
+  [ContentKind.block]: createContentList(ContentKind.block, blocks),
+  [ContentKind.unit]: createContentList(ContentKind.unit, units),
+  [ContentKind.status]: statusEffects.map(
+    (name, id) => new Content(ContentKind.status, name, id)
+  ),
+  [ContentKind.weather]: createContentList(ContentKind.weather, weatherNames),
+  [ContentKind.sensor]: createContentList(ContentKind.sensor, sensors),
+  [ContentKind.sound]: createContentList(ContentKind.sound, soundNames),
+};
+
+export const teamList = teams.map((name, id) => new Team(name.slice(1), id));
+
+/** Maps built-in variable names, like `@copper`, to their values. */
+const contentMap = new Map<string, Content | Team>();
+
+for (const list of Object.values(contentLists)) {
+  for (const content of list) {
+    const name =
+      content.kind === ContentKind.status
+        ? `@status-${content.name}`
+        : `@${content.name}`;
+
+    // some sensors share their names with content,
+    // so the first one wins
+    if (contentMap.has(name)) continue;
+    contentMap.set(name, content);
+  }
+}
+
+for (const team of teamList) {
+  contentMap.set(`@${team.name}`, team);
+}
+
+export function getContent(name: string) {
+  return contentMap.get(name);
+}
+
+/** Returns the content of a block, creating one for unknown block names. */
+export function getBlockContent(name: string) {
+  const content = contentMap.get(`@${name}`);
+  if (content instanceof Content && content.kind === ContentKind.block)
+    return content;
+
+  return new Content(ContentKind.block, name, -1);
+}
+
+function createContentList(kind: ContentKind, names: string[]) {
+  return names.map((name, id) => new Content(kind, name.slice(1), id));
+}
@@ -0,0 +1,158 @@
+import {
+  Building,
+  LogicDisplay,
+  MemoryCell,
+  MessageBlock,
+  createBuilding,
+} from "./buildings";
+import { MlogValue } from "./values";
+
+/**
+ * Describes the initial state of a linked building.
+ *
+ * Fixtures map link names to buildings, in link order:
+ *
+ * ```json
+ * {
+ *   "cell1": { "memory": [1, 2, 3] },
+ *   "message1": {},
+ *   "switch1": { "block": "switch", "enabled": false }
+ * }
+ * ```
+ */
+export interface BuildingFixture {
+  /**
+   * The name of the block, like `memory-cell`. Can be omitted for memory cells,
+   * memory banks, messages and displays, since it can be inferred from the link
+   * name.
+   */
+  block?: string;
+  /** The initial contents of a memory cell or bank. */
+  memory?: number[];
+  /** The initial text of a message. */
+  text?: string;
+  /**
+   * The width of a display, in pixels. Only needed for tiled displays, which
+   * have 32 pixels per tile.
+   */
+  width?: number;
+  /** The height of a display, in pixels. */
+  height?: number;
+  enabled?: boolean;
+  config?: number | string | null;
+  /** Values returned when sensing properties, like `{ "health": 100 }`. */
+  sensors?: Record<string, number | string | null>;
+  x?: number;
+  y?: number;
+}
+
+const inferredBlocks: Record<string, string> = {
+  cell: "memory-cell",
+  bank: "memory-bank",
+  message: "message",
+  display: "logic-display",
+};
+
+/**
+ * Creates the linked buildings described by a parsed JSON fixture. Throws an
+ * error if the fixture is not valid.
+ */
+export function createLinksFromFixture(fixture: unknown): Building[] {
+  if (!isRecord(fixture)) throw new Error("The fixture must be an object");
+
+  const links: Building[] = [];
+
+  for (const [linkName, value] of Object.entries(fixture)) {
+    if (!isRecord(value))
+      throw new Error(`The fixture of '${linkName}' must be an object`);
+
+    links.push(createBuildingFromFixture(linkName, value));
+  }
+
+  return links;
+}
+
+function createBuildingFromFixture(
+  linkName: string,
+  fixture: BuildingFixture
+): Building {
+  const block = fixture.block ?? inferredBlocks[linkName.replace(/\d+$/, "")];
+  if (typeof block !== "string")
+    throw new Error(`Could not infer the block of '${linkName}'`);
+
+  const building = createBuilding(block, linkName);
+
+  if (fixture.memory !== undefined) {
+    if (!(building instanceof MemoryCell))
+      throw new Error(`'${linkName}' is not a memory cell`);
+    if (!isNumberArray(fixture.memory))
+      throw new Error(
+        `The memory of '${linkName}' must be an array of numbers`
+      );
+
+    building.memory.set(fixture.memory.slice(0, building.memory.length));
+  }
+
+  if (fixture.text !== undefined) {
+    if (!(building instanceof MessageBlock))
+      throw new Error(`'${linkName}' is not a message`);
+
+    building.text = String(fixture.text);
+  }
+
+  for (const key of ["width", "height"] as const) {
+    const size = fixture[key];
+    if (size === undefined) continue;
+
+    if (!(building instanceof LogicDisplay))
+      throw new Error(`'${linkName}' is not a display`);
+    if (typeof size !== "number" || !Number.isInteger(size) || size <= 0)
+      throw new Error(`The ${key} of '${linkName}' must be a positive integer`);
+
+    building[key] = size;
+  }
+
+  if (fixture.enabled !== undefined) building.enabled = !!fixture.enabled;
+  if (fixture.config !== undefined) {
+    if (!isPrimitive(fixture.config))
+      throw new Error(
+        `The config of '${linkName}' must be a number, string or null`
+      );
+
+    building.config = fixture.config;
+  }
+  if (typeof fixture.x === "number") building.x = fixture.x;
+  if (typeof fixture.y === "number") building.y = fixture.y;
+
+  if (fixture.sensors !== undefined) {
+    if (!isRecord(fixture.sensors))
+      throw new Error(`The sensors of '${linkName}' must be an object`);
+
+    for (const [name, value] of Object.entries(fixture.sensors)) {
+      if (!isPrimitive(value))
+        throw new Error(
+          `The sensor '${name}' of '${linkName}' must be a number, string or null`
+        );
+
+      building.sensors.set(name.replace(/^@/, ""), value);
+    }
+  }
+
+  return building;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): value is MlogValue {
+  return (
+    value === null || typeof value === "number" || typeof value === "string"
+  );
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "number")
+  );
+}
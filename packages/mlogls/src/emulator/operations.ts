@@ -0,0 +1,217 @@
+import {
+  MlogValue,
+  fromNumber,
+  looseEquals,
+  strictEquals,
+  toNumber,
+} from "./values";
+
+const degToRad = Math.PI / 180;
+const radToDeg = 180 / Math.PI;
+
+type UnaryOperation = (x: number) => number;
+type BinaryOperation = (a: number, b: number) => number;
+
+const unaryOperations: Record<string, UnaryOperation> = {
+  not: (x) => fromLong(~toLong(x)),
+  abs: Math.abs,
+  sign: Math.sign,
+  log: Math.log,
+  log10: Math.log10,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  sqrt: Math.sqrt,
+  sin: (x) => Math.sin(x * degToRad),
+  cos: (x) => Math.cos(x * degToRad),
+  tan: (x) => Math.tan(x * degToRad),
+  asin: (x) => Math.asin(x) * radToDeg,
+  acos: (x) => Math.acos(x) * radToDeg,
+  atan: (x) => Math.atan(x) * radToDeg,
+};
+
+const binaryOperations: Record<string, BinaryOperation> = {
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => a / b,
+  idiv: (a, b) => Math.floor(a / b),
+  mod: (a, b) => a % b,
+  emod: (a, b) => ((a % b) + b) % b,
+  pow: Math.pow,
+  land: (a, b) => (a !== 0 && b !== 0 ? 1 : 0),
+  lessThan: (a, b) => (a < b ? 1 : 0),
+  lessThanEq: (a, b) => (a <= b ? 1 : 0),
+  greaterThan: (a, b) => (a > b ? 1 : 0),
+  greaterThanEq: (a, b) => (a >= b ? 1 : 0),
+  shl: (a, b) => fromLong(toLong(a) << (toLong(b) & 63n)),
+  shr: (a, b) => fromLong(toLong(a) >> (toLong(b) & 63n)),
+  ushr: (a, b) => fromLong(BigInt.asUintN(64, toLong(a)) >> (toLong(b) & 63n)),
+  or: (a, b) => fromLong(toLong(a) | toLong(b)),
+  and: (a, b) => fromLong(toLong(a) & toLong(b)),
+  xor: (a, b) => fromLong(toLong(a) ^ toLong(b)),
+  max: Math.max,
+  min: Math.min,
+  angle: (x, y) => {
+    const angle = Math.atan2(y, x) * radToDeg;
+    return angle < 0 ? angle + 360 : angle;
+  },
+  angleDiff: (a, b) => {
+    a = mod360(a);
+    b = mod360(b);
+    return Math.min(
+      a - b < 0 ? a - b + 360 : a - b,
+      b - a < 0 ? b - a + 360 : b - a
+    );
+  },
+  len: Math.hypot,
+  noise: simplexNoise,
+  logn: (x, base) => Math.log(x) / Math.log(base),
+};
+
+/**
+ * Evaluates the condition of a `jump` or `select` instruction. Unknown
+ * conditions are always false.
+ */
+export function evaluateCondition(type: string, a: MlogValue, b: MlogValue) {
+  switch (type) {
+    case "always":
+      return true;
+    case "equal":
+      return looseEquals(a, b);
+    case "notEqual":
+      return !looseEquals(a, b);
+    case "strictEqual":
+      return strictEquals(a, b);
+    case "lessThan":
+      return toNumber(a) < toNumber(b);
+    case "lessThanEq":
+      return toNumber(a) <= toNumber(b);
+    case "greaterThan":
+      return toNumber(a) > toNumber(b);
+    case "greaterThanEq":
+      return toNumber(a) >= toNumber(b);
+  }
+
+  return false;
+}
+
+/**
+ * Evaluates an `op` instruction. Returns `undefined` if the operation is not
+ * known, in which case the result is left untouched.
+ */
+export function evaluateOperation(
+  type: string,
+  a: MlogValue,
+  b: MlogValue,
+  random: () => number
+): MlogValue | undefined {
+  switch (type) {
+    case "equal":
+    case "notEqual":
+    case "strictEqual":
+      return evaluateCondition(type, a, b) ? 1 : 0;
+    case "rand":
+      return fromNumber(random() * toNumber(a));
+  }
+
+  const unary = unaryOperations[type];
+  if (unary) return fromNumber(unary(toNumber(a)));
+
+  const binary = binaryOperations[type];
+  if (binary) return fromNumber(binary(toNumber(a), toNumber(b)));
+}
+
+function mod360(value: number) {
+  value %= 360;
+  return value < 0 ? value + 360 : value;
+}
+
+const minLong = -(2n ** 63n);
+const maxLong = 2n ** 63n - 1n;
+
+/** Converts a number into a 64 bit integer, like a cast to `long` in Java. */
+function toLong(value: number) {
+  if (Number.isNaN(value)) return 0n;
+  if (value >= 2 ** 63) return maxLong;
+  if (value <= -(2 ** 63)) return minLong;
+
+  return BigInt(Math.trunc(value));
+}
+
+function fromLong(value: bigint) {
+  return Number(BigInt.asIntN(64, value));
+}
+
+const permutation = createPermutation();
+
+const gradients = [
+  [1, 1],
+  [-1, 1],
+  [1, -1],
+  [-1, -1],
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+];
+
+/**
+ * Two dimensional simplex noise in the range [-1, 1].
+ *
+ * The game uses its own permutation table, so the values won't match the ones
+ * computed in game, but they have the same properties.
+ */
+function simplexNoise(x: number, y: number) {
+  const f2 = 0.5 * (Math.sqrt(3) - 1);
+  const g2 = (3 - Math.sqrt(3)) / 6;
+
+  const skew = (x + y) * f2;
+  const i = Math.floor(x + skew);
+  const j = Math.floor(y + skew);
+  const unskew = (i + j) * g2;
+
+  const x0 = x - (i - unskew);
+  const y0 = y - (j - unskew);
+
+  const [i1, j1] = x0 > y0 ? [1, 0] : [0, 1];
+
+  const x1 = x0 - i1 + g2;
+  const y1 = y0 - j1 + g2;
+  const x2 = x0 - 1 + 2 * g2;
+  const y2 = y0 - 1 + 2 * g2;
+
+  const ii = i & 255;
+  const jj = j & 255;
+
+  const corner = (gradient: number, dx: number, dy: number) => {
+    const t = 0.5 - dx * dx - dy * dy;
+    if (t < 0) return 0;
+
+    const [gx, gy] = gradients[gradient % gradients.length];
+    return t ** 4 * (gx * dx + gy * dy);
+  };
+
+  const n0 = corner(permutation[ii + permutation[jj]], x0, y0);
+  const n1 = corner(permutation[ii + i1 + permutation[jj + j1]], x1, y1);
+  const n2 = corner(permutation[ii + 1 + permutation[jj + 1]], x2, y2);
+
+  return 70 * (n0 + n1 + n2);
+}
+
+function createPermutation() {
+  const values = Array.from({ length: 256 }, (_, i) => i);
+
+  // deterministic shuffle, so that the noise is the same on every run
+  let seed = 0x2545f491;
+  for (let i = values.length - 1; i > 0; i--) {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+
+    const j = (seed >>> 0) % (i + 1);
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+
+  return [...values, ...values];
+}
@@ -0,0 +1,664 @@
+import { counterVar } from "../constants";
+import { builtInSymbolMap } from "../analysis/symbol";
+import { ParameterUsage } from "../parser/descriptors";
+import {
+  ControlInstruction,
+  DrawFlushInstruction,
+  DrawInstruction,
+  EndInstruction,
+  FormatInstruction,
+  GetFlagInstruction,
+  GetLinkInstruction,
+  InstructionNode,
+  JumpInstruction,
+  LabelDeclaration,
+  LookupInstruction,
+  NoopInstruction,
+  OpInstruction,
+  PackColorInstruction,
+  PrintCharInstruction,
+  PrintFlushInstruction,
+  PrintInstruction,
+  PrintLocaleInstruction,
+  ReadInstruction,
+  SelectInstruction,
+  SensorInstruction,
+  SetFlagInstruction,
+  SetInstruction,
+  SetRateInstruction,
+  StopInstruction,
+  SyncInstruction,
+  SyntaxNode,
+  UnknownInstruction,
+  UnpackColorInstruction,
+  WaitInstruction,
+  WriteInstruction,
+} from "../parser/nodes";
+import { TextToken } from "../parser/tokens";
+import {
+  Building,
+  DrawCommand,
+  LogicDisplay,
+  MemoryCell,
+  MessageBlock,
+} from "./buildings";
+import { contentLists, getContent, teamList } from "./content";
+import { evaluateCondition, evaluateOperation } from "./operations";
+import {
+  Content,
+  ContentKind,
+  MlogObject,
+  MlogValue,
+  fromNumber,
+  packColor,
+  isObject,
+  toNumber,
+  toPrintString,
+  unpackColor,
+} from "./values";
+
+/** The maximum length of the text buffer. */
+export const maxTextBuffer = 400;
+
+/** The maximum amount of draw commands that can be buffered. */
+export const maxGraphicsBuffer = 256;
+
+/**
+ * How many instructions a processor can accumulate while waiting, relative to
+ * its instructions per tick.
+ */
+const maxInstructionScale = 5;
+
+/** The maximum value accepted by `setrate`. */
+const maxInstructionsPerTick = 1000;
+
+const ticksPerSecond = 60;
+
+export interface ProcessorOptions {
+  /**
+   * How many instructions are executed on each tick. Defaults to 8, the value
+   * used by logic processors.
+   */
+  ipt?: number;
+  /** The buildings linked to the processor, in link order. */
+  links?: Building[];
+  /** The block of the processor, returned when sensing `@this`. */
+  block?: string;
+  x?: number;
+  y?: number;
+  /**
+   * The source of random numbers for `op rand`, useful to get reproducible
+   * runs. Defaults to `Math.random`.
+   */
+  random?: () => number;
+}
+
+export class Variable {
+  constructor(
+    public name: string,
+    public value: MlogValue,
+    /** Whether the variable can't be changed by the program. */
+    public readonly constant: boolean
+  ) {}
+}
+
+/**
+ * Executes mlog code following the same rules as the processors in the game.
+ *
+ * There is no world around the processor, so instructions that interact with
+ * units, the map or the rules write `null` to their outputs and have no other
+ * effect.
+ */
+export class Processor {
+  /** Maps addresses to their instructions. */
+  readonly instructions: InstructionNode<unknown>[] = [];
+  /** Maps addresses to the index of their syntax nodes. */
+  readonly nodeIndexes: number[] = [];
+  /** The named variables used by the program, including built-in ones. */
+  readonly variables = new Map<string, Variable>();
+  readonly links: Building[];
+  /** World flags set by `setflag`. */
+  readonly flags = new Set<string>();
+  readonly counter: Variable;
+
+  textBuffer = "";
+  drawBuffer: DrawCommand[] = [];
+  ipt: number;
+  /** How many ticks have passed since the processor started. */
+  ticks = 0;
+  /** How many times the program went back to address 0. */
+  runs = 0;
+  /** Whether the processor is halted by a `stop` instruction. */
+  stopped = false;
+
+  #iptVariable: Variable;
+  #tickVariable: Variable;
+  #timeVariable: Variable;
+  #secondVariable: Variable;
+  #minuteVariable: Variable;
+  #labelAddresses = new Map<string, number>();
+  #tokenVariables = new Map<TextToken, Variable>();
+  #waitTimes = new Map<number, number>();
+  #accumulator = 0;
+  #yielded = false;
+  #random: () => number;
+
+  constructor(nodes: SyntaxNode[], options: ProcessorOptions = {}) {
+    const {
+      ipt = 8,
+      links = [],
+      block = "logic-processor",
+      x = 0,
+      y = 0,
+      random = Math.random,
+    } = options;
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+
+      if (node instanceof LabelDeclaration) {
+        if (!this.#labelAddresses.has(node.name)) {
+          this.#labelAddresses.set(node.name, this.instructions.length);
+        }
+        continue;
+      }
+
+      if (!(node instanceof InstructionNode)) continue;
+
+      this.instructions.push(node);
+      this.nodeIndexes.push(i);
+    }
+
+    this.ipt = ipt;
+    this.links = links;
+    this.#random = random;
+
+    this.counter = this.#define(counterVar, 0, false);
+    this.#define("@this", new Building(block, "", x, y));
+    this.#define("@thisx", x);
+    this.#define("@thisy", y);
+    this.#define("@links", links.length);
+    this.#iptVariable = this.#define("@ipt", ipt);
+    this.#tickVariable = this.#define("@tick", 0);
+    this.#timeVariable = this.#define("@time", 0);
+    this.#secondVariable = this.#define("@second", 0);
+    this.#minuteVariable = this.#define("@minute", 0);
+
+    for (const link of links) {
+      this.#define(link.linkName, link);
+    }
+  }
+
+  /** The address of the instruction that will be executed next. */
+  get address() {
+    if (this.ended) return 0;
+
+    return Math.trunc(toNumber(this.counter.value));
+  }
+
+  /**
+   * Whether the program reached its end, either through `end` or by executing
+   * the last instruction, so the next step goes back to address 0.
+   */
+  get ended() {
+    const counter = toNumber(this.counter.value);
+    return counter < 0 || counter >= this.instructions.length;
+  }
+
+  /**
+   * Whether the current tick has no instructions left to execute, so the next
+   * step advances to the next tick.
+   */
+  get tickFinished() {
+    return this.#accumulator < 1 || this.#yielded;
+  }
+
+  /**
+   * Executes the next instruction, advancing to the next tick if the current
+   * one has finished.
+   */
+  step() {
+    if (this.tickFinished) this.#nextTick();
+
+    this.#executeNext();
+  }
+
+  /**
+   * Advances to the next tick and executes its instructions. The processor
+   * stops early when it yields because of `wait` or `stop`.
+   */
+  tick() {
+    this.#nextTick();
+
+    while (!this.tickFinished) {
+      this.#executeNext();
+    }
+  }
+
+  /** Returns the variable referenced by a token. */
+  getVariable(token: TextToken): Variable {
+    let variable = this.#tokenVariables.get(token);
+    if (variable) return variable;
+
+    variable = this.#resolve(token);
+    this.#tokenVariables.set(token, variable);
+    return variable;
+  }
+
+  #define(name: string, value: MlogValue, constant = true) {
+    const variable = new Variable(name, value, constant);
+    this.variables.set(name, variable);
+    return variable;
+  }
+
+  #nextTick() {
+    this.ticks++;
+    this.#yielded = false;
+    this.#accumulator = Math.min(
+      this.#accumulator + this.ipt,
+      this.ipt * maxInstructionScale
+    );
+
+    this.#updateTime();
+  }
+
+  #executeNext() {
+    this.#accumulator--;
+    if (this.instructions.length === 0) return;
+
+    if (this.ended) {
+      this.counter.value = 0;
+      this.runs++;
+    }
+
+    const address = this.address;
+    this.counter.value = toNumber(this.counter.value) + 1;
+    this.stopped = false;
+
+    this.#execute(this.instructions[address], address);
+  }
+
+  #updateTime() {
+    const seconds = this.ticks / ticksPerSecond;
+
+    this.#tickVariable.value = this.ticks;
+    this.#timeVariable.value = seconds * 1000;
+    this.#secondVariable.value = seconds;
+    this.#minuteVariable.value = seconds / 60;
+  }
+
+  #resolve(token: TextToken): Variable {
+    const { content } = token;
+
+    if (token.isNumber())
+      return new Variable(content, fromNumber(token.value), true);
+
+    if (token.isString())
+      return new Variable(content, parseString(content), true);
+
+    if (token.isColorLiteral())
+      return new Variable(content, packColor(token), true);
+
+    const existing = this.variables.get(content);
+    if (existing) return existing;
+
+    const symbol = builtInSymbolMap.get(content);
+    if (!symbol) return this.#define(content, null, false);
+
+    return this.#define(content, getBuiltInValue(content));
+  }
+
+  #read(token: TextToken | undefined): MlogValue {
+    if (!token) return null;
+
+    return this.getVariable(token).value;
+  }
+
+  #readNumber(token: TextToken | undefined) {
+    return toNumber(this.#read(token));
+  }
+
+  #write(token: TextToken | undefined, value: MlogValue) {
+    if (!token) return;
+
+    const variable = this.getVariable(token);
+    if (variable.constant) return;
+
+    // the game ignores objects written to the counter
+    if (variable === this.counter && isObject(value)) return;
+
+    variable.value = value;
+  }
+
+  #yield() {
+    this.#yielded = true;
+  }
+
+  #execute(node: InstructionNode<unknown>, address: number) {
+    if (node instanceof SetInstruction) {
+      this.#write(node.data.variable, this.#read(node.data.value));
+    } else if (node instanceof OpInstruction) {
+      if (node.data.$type === "unknown") return;
+
+      const [a, b] = getArguments(node.data, "result");
+      const result = evaluateOperation(
+        node.data.$type,
+        this.#read(a),
+        this.#read(b),
+        this.#random
+      );
+
+      if (result !== undefined) this.#write(node.data.result, result);
+    } else if (node instanceof JumpInstruction) {
+      const { data } = node;
+      const target = this.#getJumpTarget(data.destination);
+      if (target === undefined || data.$type === "unknown") return;
+
+      const condition =
+        data.$type === "always" ||
+        evaluateCondition(data.$type, this.#read(data.x), this.#read(data.y));
+
+      if (condition) this.counter.value = target;
+    } else if (node instanceof SelectInstruction) {
+      const { data } = node;
+      if (data.$type === "unknown") return;
+
+      if (data.$type === "always") {
+        this.#write(data.result, this.#read(data.value));
+        return;
+      }
+
+      const condition = evaluateCondition(
+        data.$type,
+        this.#read(data.x),
+        this.#read(data.y)
+      );
+
+      this.#write(
+        data.result,
+        this.#read(condition ? data.whenTrue : data.whenFalse)
+      );
+    } else if (node instanceof EndInstruction) {
+      this.counter.value = this.instructions.length;
+    } else if (node instanceof StopInstruction) {
+      this.counter.value = address;
+      this.stopped = true;
+      this.#yield();
+    } else if (node instanceof WaitInstruction) {
+      const seconds = this.#readNumber(node.data.seconds);
+      const elapsed = this.#waitTimes.get(address) ?? 0;
+
+      if (elapsed >= seconds) {
+        this.#waitTimes.delete(address);
+        return;
+      }
+
+      this.#waitTimes.set(address, elapsed + 1 / ticksPerSecond);
+      this.counter.value = address;
+      this.#yield();
+    } else if (node instanceof PrintInstruction) {
+      this.#print(toPrintString(this.#read(node.data.value)));
+    } else if (node instanceof PrintCharInstruction) {
+      const value = this.#read(node.data.value);
+      if (value instanceof MlogObject) return;
+
+      this.#print(String.fromCharCode(Math.floor(toNumber(value))));
+    } else if (node instanceof PrintLocaleInstruction) {
+      // there are no locale bundles here, so the key is printed as is
+      this.#print(toPrintString(this.#read(node.data.key)));
+    } else if (node instanceof FormatInstruction) {
+      this.#format(toPrintString(this.#read(node.data.value)));
+    } else if (node instanceof PrintFlushInstruction) {
+      const target = this.#read(node.data.target);
+      if (target instanceof MessageBlock) target.flush(this.textBuffer);
+
+      this.textBuffer = "";
+    } else if (node instanceof DrawInstruction) {
+      this.#draw(node);
+    } else if (node instanceof DrawFlushInstruction) {
+      const target = this.#read(node.data.target);
+      if (target instanceof LogicDisplay) target.flush(this.drawBuffer);
+
+      this.drawBuffer = [];
+    } else if (node instanceof ReadInstruction) {
+      const target = this.#read(node.data.target);
+      const index = Math.trunc(this.#readNumber(node.data.address));
+
+      if (target instanceof MemoryCell) {
+        this.#write(node.data.output, target.read(index));
+      } else if (typeof target === "string") {
+        this.#write(
+          node.data.output,
+          index >= 0 && index < target.length ? target.charCodeAt(index) : null
+        );
+      }
+    } else if (node instanceof WriteInstruction) {
+      const target = this.#read(node.data.target);
+      if (!(target instanceof MemoryCell)) return;
+
+      target.write(
+        this.#readNumber(node.data.address),
+        this.#read(node.data.input)
+      );
+    } else if (node instanceof GetLinkInstruction) {
+      const index = Math.trunc(this.#readNumber(node.data.index));
+
+      this.#write(node.data.result, this.links[index] ?? null);
+    } else if (node instanceof SensorInstruction) {
+      const target = this.#read(node.data.target);
+      const property = this.#read(node.data.property);
+
+      if (target instanceof MlogObject) {
+        this.#write(node.data.output, target.sensor(property));
+      } else if (
+        typeof target === "string" &&
+        property instanceof Content &&
+        property.name === "size"
+      ) {
+        this.#write(node.data.output, target.length);
+      } else {
+        this.#write(node.data.output, null);
+      }
+    } else if (node instanceof ControlInstruction) {
+      const { data } = node;
+      const target = this.#read(data.building);
+      if (!(target instanceof Building)) return;
+
+      switch (data.$type) {
+        case "enabled":
+          target.enabled = this.#readNumber(data.enabled) !== 0;
+          break;
+        case "config":
+          target.config = this.#read(data.value);
+          break;
+        case "color":
+          target.sensors.set("color", this.#read(data.color));
+          break;
+      }
+    } else if (node instanceof LookupInstruction) {
+      const { data } = node;
+      if (data.$type === "unknown") return;
+
+      const id = Math.trunc(this.#readNumber(data.id));
+      const list =
+        data.$type === "team"
+          ? teamList
+          : contentLists[data.$type as ContentKind];
+
+      this.#write(data.result, list[id] ?? null);
+    } else if (node instanceof PackColorInstruction) {
+      const { data } = node;
+
+      this.#write(
+        data.result,
+        packColor({
+          red: this.#readNumber(data.red),
+          green: this.#readNumber(data.green),
+          blue: this.#readNumber(data.blue),
+          alpha: this.#readNumber(data.alpha),
+        })
+      );
+    } else if (node instanceof UnpackColorInstruction) {
+      const { data } = node;
+      const color = unpackColor(this.#readNumber(data.value));
+
+      this.#write(data.red, color.red);
+      this.#write(data.green, color.green);
+      this.#write(data.blue, color.blue);
+      this.#write(data.alpha, color.alpha);
+    } else if (node instanceof SetRateInstruction) {
+      const rate = Math.trunc(this.#readNumber(node.data.rate));
+
+      this.ipt = Math.min(Math.max(rate, 1), maxInstructionsPerTick);
+      this.#iptVariable.value = this.ipt;
+    } else if (node instanceof GetFlagInstruction) {
+      const name = this.#read(node.data.flagName);
+
+      this.#write(
+        node.data.output,
+        typeof name === "string" ? Number(this.flags.has(name)) : null
+      );
+    } else if (node instanceof SetFlagInstruction) {
+      const name = this.#read(node.data.flagName);
+      if (typeof name !== "string") return;
+
+      if (this.#readNumber(node.data.enabled) !== 0) {
+        this.flags.add(name);
+      } else {
+        this.flags.delete(name);
+      }
+    } else if (
+      node instanceof NoopInstruction ||
+      node instanceof UnknownInstruction ||
+      node instanceof SyncInstruction
+    ) {
+      // nothing to do
+    } else {
+      // the instruction depends on the world, which doesn't exist here
+      for (const param of node.parameters) {
+        if (param.usage !== ParameterUsage.write) continue;
+
+        this.#write(param.token, null);
+      }
+    }
+  }
+
+  #getJumpTarget(destination: TextToken | undefined) {
+    if (!destination) return;
+    if (destination.isNumber()) return destination.value;
+
+    return this.#labelAddresses.get(destination.content);
+  }
+
+  #print(text: string) {
+    if (this.textBuffer.length >= maxTextBuffer) return;
+
+    this.textBuffer += text;
+  }
+
+  /** Replaces the placeholder with the lowest number, like `{0}`. */
+  #format(text: string) {
+    const buffer = this.textBuffer;
+    let placeholderIndex = -1;
+    let placeholderNumber = 10;
+
+    for (let i = 0; i + 2 < buffer.length; i++) {
+      if (buffer[i] !== "{" || buffer[i + 2] !== "}") continue;
+
+      const digit = buffer.charCodeAt(i + 1) - 48;
+      if (digit < 0 || digit > 9 || digit >= placeholderNumber) continue;
+
+      placeholderNumber = digit;
+      placeholderIndex = i;
+    }
+
+    if (placeholderIndex === -1) return;
+
+    this.textBuffer =
+      buffer.slice(0, placeholderIndex) +
+      text +
+      buffer.slice(placeholderIndex + 3);
+  }
+
+  #draw(node: DrawInstruction) {
+    const { data } = node;
+    if (data.$type === "unknown") return;
+    if (this.drawBuffer.length >= maxGraphicsBuffer) return;
+
+    const args = getArguments(data).map((token) => this.#read(token));
+
+    if (data.$type === "print") {
+      args.push(this.textBuffer);
+      this.textBuffer = "";
+    }
+
+    this.drawBuffer.push({ type: data.$type, args });
+  }
+}
+
+/**
+ * Returns the argument tokens of an overloaded instruction in the order they
+ * appear in the code, skipping the given output parameters.
+ */
+function getArguments(data: object, ...outputs: string[]) {
+  const args: (TextToken | undefined)[] = [];
+
+  for (const [key, token] of Object.entries(data)) {
+    if (key === "$type" || key === "typeToken" || outputs.includes(key))
+      continue;
+
+    args.push(token as TextToken | undefined);
+  }
+
+  return args;
+}
+
+function getBuiltInValue(name: string): MlogValue {
+  switch (name) {
+    case "true":
+      return 1;
+    case "false":
+      return 0;
+    case "null":
+      return null;
+    case "@pi":
+      return Math.PI;
+    case "@e":
+      return Math.E;
+    case "@degToRad":
+      return Math.PI / 180;
+    case "@radToDeg":
+      return 180 / Math.PI;
+    // alignments are bit flags
+    case "@center":
+      return 1;
+    case "@top":
+      return 2;
+    case "@bottom":
+      return 4;
+    case "@left":
+      return 8;
+    case "@right":
+      return 16;
+    case "@topLeft":
+      return 2 | 8;
+    case "@topRight":
+      return 2 | 16;
+    case "@bottomLeft":
+      return 4 | 8;
+    case "@bottomRight":
+      return 4 | 16;
+  }
+
+  const color = builtInSymbolMap.get(name)?.color;
+  if (color) return packColor(color);
+
+  return getContent(name) ?? null;
+}
+
+/** Removes the quotes of a string literal and expands line breaks. */
+function parseString(content: string) {
+  const end = content.length > 1 && content.endsWith('"') ? -1 : undefined;
+
+  return content.slice(1, end).replace(/\\n/g, "\n");
+}
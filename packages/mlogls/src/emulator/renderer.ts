@@ -0,0 +1,303 @@
+import type { DrawCommand, LogicDisplay } from "./buildings";
+import { MlogValue, toNumber, unpackColor } from "./values";
+
+/** An affine transform in the `[a, b, c, d, e, f]` form used by SVG. */
+type Matrix = [number, number, number, number, number, number];
+
+const identity: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** The maximum amount of sides drawn by `poly` and `linePoly`. */
+const maxPolySides = 25;
+
+/** The font size used by `draw print`, in pixels. */
+const fontSize = 8;
+
+// the bits used by the alignment constants, like `@topLeft`
+const alignCenter = 1;
+const alignTop = 2;
+const alignBottom = 4;
+const alignLeft = 8;
+const alignRight = 16;
+
+/**
+ * Renders the draw commands flushed to a logic display into SVG frames.
+ *
+ * Like in the game, the contents, color, stroke and transform of the display
+ * are kept between flushes, so each frame shows the result of drawing the
+ * flushed commands on top of the previous frame.
+ *
+ * The coordinates of the commands are truncated to integers, since that's how
+ * displays store them.
+ */
+export class DisplayRenderer {
+  #elements: string[] = [];
+  #red = 255;
+  #green = 255;
+  #blue = 255;
+  #alpha = 255;
+  #stroke = 1;
+  #transform: Matrix = identity;
+
+  constructor(
+    public readonly width: number,
+    public readonly height: number
+  ) {}
+
+  /**
+   * Draws the commands of a `drawflush` and returns the resulting frame as an
+   * SVG document.
+   */
+  render(commands: DrawCommand[]): string {
+    for (const command of commands) {
+      this.#draw(command);
+    }
+
+    const { width, height } = this;
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="${width}" height="${height}" fill="#000000"/>`,
+      // displays have their origin at the bottom left corner
+      `<g transform="matrix(1 0 0 -1 0 ${height})">`,
+      ...this.#elements,
+      "</g>",
+      "</svg>",
+      "",
+    ].join("\n");
+  }
+
+  #draw({ type, args }: DrawCommand) {
+    const n = args.map(toInteger);
+
+    switch (type) {
+      case "clear":
+        this.#elements = [
+          `<rect width="${this.width}" height="${this.height}" fill="${formatHex(n[0], n[1], n[2])}"/>`,
+        ];
+        break;
+      case "color":
+        this.#red = clampByte(n[0]);
+        this.#green = clampByte(n[1]);
+        this.#blue = clampByte(n[2]);
+        this.#alpha = clampByte(n[3]);
+        break;
+      case "col": {
+        const color = unpackColor(toNumber(args[0]));
+        this.#red = Math.round(color.red * 255);
+        this.#green = Math.round(color.green * 255);
+        this.#blue = Math.round(color.blue * 255);
+        this.#alpha = Math.round(color.alpha * 255);
+        break;
+      }
+      case "stroke":
+        this.#stroke = n[0];
+        break;
+      case "line":
+        this.#add(
+          `<line x1="${n[0]}" y1="${n[1]}" x2="${n[2]}" y2="${n[3]}" stroke-linecap="square" ${this.#strokeAttributes()}/>`
+        );
+        break;
+      case "rect":
+        this.#add(
+          `${rect(n[0], n[1], n[2], n[3])} ${this.#fillAttributes()}/>`
+        );
+        break;
+      case "lineRect":
+        this.#add(
+          `${rect(n[0], n[1], n[2], n[3])} fill="none" ${this.#strokeAttributes()}/>`
+        );
+        break;
+      case "poly":
+        this.#add(
+          `${polygon(regularPolygon(n[0], n[1], n[2], n[3], n[4]))} ${this.#fillAttributes()}/>`
+        );
+        break;
+      case "linePoly":
+        this.#add(
+          `${polygon(regularPolygon(n[0], n[1], n[2], n[3], n[4]))} fill="none" stroke-linejoin="miter" ${this.#strokeAttributes()}/>`
+        );
+        break;
+      case "triangle":
+        this.#add(
+          `${polygon([n[0], n[1], n[2], n[3], n[4], n[5]])} ${this.#fillAttributes()}/>`
+        );
+        break;
+      case "image": {
+        // content icons are not available, so images
+        // are drawn as squares with the name of the content
+        const [x, y, , size, rotation] = n;
+        const name = args[2] === null ? "null" : describe(args[2]);
+        this.#add(
+          `<rect x="${x - size / 2}" y="${y - size / 2}" width="${size}" height="${size}" transform="rotate(${rotation} ${x} ${y})" ${this.#fillAttributes()}><title>${escapeXml(name)}</title></rect>`
+        );
+        break;
+      }
+      case "print":
+        this.#print(
+          n[0],
+          n[1],
+          n[2],
+          typeof args[3] === "string" ? args[3] : ""
+        );
+        break;
+      case "translate":
+        this.#multiply([1, 0, 0, 1, n[0], n[1]]);
+        break;
+      case "scale":
+        this.#multiply([toNumber(args[0]), 0, 0, toNumber(args[1]), 0, 0]);
+        break;
+      case "rotate": {
+        const radians = (n[0] * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        this.#multiply([cos, sin, -sin, cos, 0, 0]);
+        break;
+      }
+      case "reset":
+        this.#transform = identity;
+        break;
+    }
+  }
+
+  #print(x: number, y: number, alignment: number, text: string) {
+    const anchor =
+      alignment & alignLeft
+        ? "start"
+        : alignment & alignRight
+          ? "end"
+          : "middle";
+
+    // the text is flipped back, so "top" means below the point
+    const baseline =
+      alignment & alignTop
+        ? "hanging"
+        : alignment & alignBottom || !(alignment & alignCenter)
+          ? "text-after-edge"
+          : "central";
+
+    const lines = text
+      .split("\n")
+      .map(
+        (line, i) =>
+          `<tspan x="0" dy="${i === 0 ? 0 : fontSize}">${escapeXml(line)}</tspan>`
+      )
+      .join("");
+
+    this.#add(
+      `<text transform="matrix(1 0 0 -1 ${x} ${y})" font-family="monospace" font-size="${fontSize}" text-anchor="${anchor}" dominant-baseline="${baseline}" ${this.#fillAttributes()}>${lines}</text>`
+    );
+  }
+
+  #add(element: string) {
+    if (this.#transform === identity) {
+      this.#elements.push(element);
+      return;
+    }
+
+    const matrix = this.#transform.map(formatNumber).join(" ");
+    this.#elements.push(`<g transform="matrix(${matrix})">${element}</g>`);
+  }
+
+  #multiply([a, b, c, d, e, f]: Matrix) {
+    const [ma, mb, mc, md, me, mf] = this.#transform;
+
+    this.#transform = [
+      ma * a + mc * b,
+      mb * a + md * b,
+      ma * c + mc * d,
+      mb * c + md * d,
+      ma * e + mc * f + me,
+      mb * e + md * f + mf,
+    ];
+  }
+
+  #fillAttributes() {
+    const fill = `fill="${formatHex(this.#red, this.#green, this.#blue)}"`;
+    if (this.#alpha === 255) return fill;
+
+    return `${fill} fill-opacity="${formatNumber(this.#alpha / 255)}"`;
+  }
+
+  #strokeAttributes() {
+    const stroke = `stroke="${formatHex(this.#red, this.#green, this.#blue)}" stroke-width="${this.#stroke}"`;
+    if (this.#alpha === 255) return stroke;
+
+    return `${stroke} stroke-opacity="${formatNumber(this.#alpha / 255)}"`;
+  }
+}
+
+/** Renders one SVG frame for each `drawflush` that targeted the display. */
+export function renderDisplayFrames(display: LogicDisplay) {
+  const renderer = new DisplayRenderer(display.width, display.height);
+
+  return display.frames.map((commands) => renderer.render(commands));
+}
+
+function toInteger(value: MlogValue) {
+  return Math.trunc(toNumber(value));
+}
+
+function clampByte(value: number) {
+  return Math.min(Math.max(value, 0), 255);
+}
+
+function describe(value: Exclude<MlogValue, null>) {
+  return typeof value === "object" ? value.describe() : String(value);
+}
+
+function rect(x: number, y: number, width: number, height: number) {
+  // negative sizes extend the rectangle to the other side
+  const left = Math.min(x, x + width);
+  const bottom = Math.min(y, y + height);
+
+  return `<rect x="${left}" y="${bottom}" width="${Math.abs(width)}" height="${Math.abs(height)}"`;
+}
+
+function polygon(points: number[]) {
+  const pairs: string[] = [];
+
+  for (let i = 0; i < points.length; i += 2) {
+    pairs.push(`${formatNumber(points[i])},${formatNumber(points[i + 1])}`);
+  }
+
+  return `<polygon points="${pairs.join(" ")}"`;
+}
+
+function regularPolygon(
+  x: number,
+  y: number,
+  sides: number,
+  radius: number,
+  rotation: number
+) {
+  const count = Math.min(Math.max(sides, 3), maxPolySides);
+  const points: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const angle = ((rotation + (i * 360) / count) * Math.PI) / 180;
+    points.push(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+  }
+
+  return points;
+}
+
+function formatHex(red: number, green: number, blue: number) {
+  return (
+    "#" +
+    [red, green, blue]
+      .map((channel) => clampByte(channel).toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+function formatNumber(value: number) {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
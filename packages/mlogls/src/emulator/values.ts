@@ -0,0 +1,196 @@
+import { Color } from "vscode-languageserver";
+
+/**
+ * A value stored in a processor variable.
+ *
+ * Numbers that are not finite can't be stored by the game, so they are replaced
+ * by `null`.
+ */
+export type MlogValue = number | string | MlogObject | null;
+
+/** Base class of the objects that can be stored in variables. */
+export abstract class MlogObject {
+  /** The name shown when the object is printed. */
+  abstract get name(): string;
+
+  /** Returns the value of a property read by the `sensor` instruction. */
+  sensor(_property: MlogValue): MlogValue {
+    return null;
+  }
+
+  /** How the object is shown when inspecting variables. */
+  describe() {
+    return this.name;
+  }
+}
+
+export enum ContentKind {
+  item = "item",
+  liquid = "liquid",
+  block = "block",
+  unit = "unit",
+  status = "status",
+  weather = "weather",
+  sensor = "sensor",
+  sound = "sound",
+}
+
+/**
+ * Game content, like items and blocks, referenced by built-in variables such as
+ * `@copper`.
+ */
+export class Content extends MlogObject {
+  constructor(
+    public kind: ContentKind,
+    public name: string,
+    public id: number
+  ) {
+    super();
+  }
+
+  describe() {
+    return `@${this.name}`;
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (!(property instanceof Content)) return null;
+
+    switch (property.name) {
+      case "name":
+        return this.name;
+      case "id":
+        return this.id;
+    }
+
+    return null;
+  }
+}
+
+export class Team extends MlogObject {
+  constructor(
+    public name: string,
+    public id: number
+  ) {
+    super();
+  }
+
+  describe() {
+    return `@${this.name}`;
+  }
+
+  sensor(property: MlogValue): MlogValue {
+    if (!(property instanceof Content)) return null;
+
+    switch (property.name) {
+      case "name":
+        return this.name;
+      case "id":
+        return this.id;
+    }
+
+    return null;
+  }
+}
+
+/** Converts a number into a value that can be stored in a variable. */
+export function fromNumber(value: number): MlogValue {
+  return Number.isFinite(value) ? value : null;
+}
+
+/** Converts a value into a number, the same way the game does. */
+export function toNumber(value: MlogValue) {
+  if (typeof value === "number") return value;
+  return value === null ? 0 : 1;
+}
+
+/** Whether the value is treated as an object by the game. */
+export function isObject(value: MlogValue) {
+  return typeof value !== "number";
+}
+
+/**
+ * Converts a value into the string that is appended to the text buffer by the
+ * `print` instruction.
+ */
+export function toPrintString(value: MlogValue): string {
+  if (value === null) return "null";
+  if (typeof value === "string") return value;
+  if (value instanceof MlogObject) return value.name;
+
+  const truncated = Math.trunc(value);
+  if (Math.abs(value - truncated) < 0.00001) return truncated.toString();
+
+  return toJavaDoubleString(value);
+}
+
+/** Mimics the output of `Double.toString` in Java. */
+function toJavaDoubleString(value: number) {
+  const abs = Math.abs(value);
+  if (abs >= 1e-3 && abs < 1e7) return value.toString();
+
+  const [mantissa, exponent] = value.toExponential().split("e");
+  const digits = mantissa.includes(".") ? mantissa : `${mantissa}.0`;
+
+  return `${digits}E${exponent.replace("+", "")}`;
+}
+
+/**
+ * Formats a value for inspection, quoting strings and using the names of
+ * built-in variables for content.
+ */
+export function formatValue(value: MlogValue): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (value instanceof MlogObject) return value.describe();
+
+  return String(value);
+}
+
+/** Compares two values like the `equal` condition. */
+export function looseEquals(a: MlogValue, b: MlogValue) {
+  if (isObject(a) && isObject(b)) return a === b;
+
+  return Math.abs(toNumber(a) - toNumber(b)) < 0.000001;
+}
+
+/** Compares two values like the `strictEqual` condition. */
+export function strictEquals(a: MlogValue, b: MlogValue) {
+  if (isObject(a) !== isObject(b)) return false;
+
+  return a === b;
+}
+
+const colorView = new DataView(new ArrayBuffer(8));
+
+/**
+ * Packs a color into a number, the same way as the `packcolor` instruction.
+ *
+ * The game stores the 32 bit RGBA value in the lower bits of a double.
+ */
+export function packColor({ red, green, blue, alpha }: Color) {
+  const channel = (value: number) =>
+    Math.trunc(Math.min(Math.max(value, 0), 1) * 255);
+
+  const rgba =
+    ((channel(red) << 24) |
+      (channel(green) << 16) |
+      (channel(blue) << 8) |
+      channel(alpha)) >>>
+    0;
+
+  colorView.setUint32(0, 0);
+  colorView.setUint32(4, rgba);
+  return colorView.getFloat64(0);
+}
+
+/** Reverses the operation done by {@link packColor}. */
+export function unpackColor(value: number): Color {
+  colorView.setFloat64(0, value);
+  const rgba = colorView.getUint32(4);
+
+  return {
+    red: ((rgba >>> 24) & 0xff) / 255,
+    green: ((rgba >>> 16) & 0xff) / 255,
+    blue: ((rgba >>> 8) & 0xff) / 255,
+    alpha: (rgba & 0xff) / 255,
+  };
+}
@@ -0,0 +1,152 @@
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  Position,
+  Range,
+  SymbolKind,
+} from "vscode-languageserver";
+import { LogicalScope } from "../analysis/logical_scope";
+import { SubroutineCall } from "../analysis/call_graph";
+import { labelDeclarationNameRange } from "../analysis/symbol_resolution";
+import { MlogDocument } from "../document";
+import { ParameterType } from "../parser/descriptors";
+import { JumpInstruction, LabelDeclaration } from "../parser/nodes";
+import { containsPosition, getSelectedSyntaxNode } from "./common";
+
+export function prepareCallHierarchy(
+  doc: MlogDocument,
+  position: Position
+): CallHierarchyItem[] | undefined {
+  const node = getSelectedSyntaxNode(doc, position);
+  if (!node) return;
+
+  let label: string | undefined;
+
+  if (
+    node instanceof LabelDeclaration &&
+    containsPosition(node.nameToken, position)
+  ) {
+    label = node.name;
+  } else if (node instanceof JumpInstruction) {
+    const param = node.parameters.find((param) =>
+      containsPosition(param.token, position)
+    );
+
+    if (param?.type === ParameterType.label && param.token.isIdentifier()) {
+      label = param.token.content;
+    }
+  }
+
+  if (label === undefined) return;
+
+  const scope = findLabelScope(doc.unit.rootScope, doc, label);
+  if (!scope) return;
+
+  return [getCallHierarchyItem(doc, scope)];
+}
+
+export function getIncomingCalls(
+  doc: MlogDocument,
+  item: CallHierarchyItem
+): CallHierarchyIncomingCall[] {
+  // the code before the first label can't be called
+  if (item.kind === SymbolKind.File) return [];
+
+  const calls = doc.unit.callGraph.getIncomingCalls(item.name);
+
+  return groupCalls(calls, (call) => call.caller).map(([scope, ranges]) => ({
+    from: getCallHierarchyItem(doc, scope),
+    fromRanges: ranges,
+  }));
+}
+
+export function getOutgoingCalls(
+  doc: MlogDocument,
+  item: CallHierarchyItem
+): CallHierarchyOutgoingCall[] {
+  const root = doc.unit.rootScope;
+  const scope =
+    item.kind === SymbolKind.File ? root : findLabelScope(root, doc, item.name);
+  if (!scope) return [];
+
+  const calls = doc.unit.callGraph
+    .getOutgoingCalls(scope)
+    .filter((call) => findLabelScope(root, doc, call.callee));
+
+  return groupCalls(calls, (call) => call.callee).map(([callee, ranges]) => ({
+    to: getCallHierarchyItem(doc, findLabelScope(root, doc, callee)!),
+    fromRanges: ranges,
+  }));
+}
+
+/**
+ * Creates the item of a label scope, or of the code before the first label if
+ * `scope` is the root scope.
+ */
+function getCallHierarchyItem(
+  doc: MlogDocument,
+  scope: LogicalScope
+): CallHierarchyItem {
+  const { nodes, uri } = doc;
+  const range = Range.create(
+    nodes[scope.start].start,
+    nodes[scope.end - 1].end
+  );
+
+  if (scope.level === 0) {
+    return {
+      name: decodeURIComponent(uri.slice(uri.lastIndexOf("/") + 1)),
+      kind: SymbolKind.File,
+      uri,
+      range,
+      selectionRange: Range.create(range.start, range.start),
+    };
+  }
+
+  const label = nodes[scope.start] as LabelDeclaration;
+
+  return {
+    name: label.name,
+    kind: SymbolKind.Function,
+    uri,
+    range,
+    selectionRange: labelDeclarationNameRange(label.nameToken),
+  };
+}
+
+/** Finds the scope of the first label with the given name. */
+function findLabelScope(
+  scope: LogicalScope,
+  doc: MlogDocument,
+  name: string
+): LogicalScope | undefined {
+  for (const child of scope.children) {
+    const label = doc.nodes[child.start] as LabelDeclaration;
+    if (label.name === name) return child;
+
+    const result = findLabelScope(child, doc, name);
+    if (result) return result;
+  }
+}
+
+function groupCalls<K>(
+  calls: SubroutineCall[],
+  getKey: (call: SubroutineCall) => K
+): [K, Range[]][] {
+  const groups = new Map<K, Range[]>();
+
+  for (const call of calls) {
+    const key = getKey(call);
+    let ranges = groups.get(key);
+    if (!ranges) {
+      ranges = [];
+      groups.set(key, ranges);
+    }
+
+    const { destination } = call;
+    ranges.push(Range.create(destination.start, destination.end));
+  }
+
+  return [...groups];
+}
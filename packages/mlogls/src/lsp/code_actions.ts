@@ -5,6 +5,7 @@ import {
   Command,
   Diagnostic,
   Range,
+  TextEdit,
 } from "vscode-languageserver";
 import { MlogDocument } from "../document";
 import {
@@ -24,6 +25,11 @@ import {
   PackColorInstruction,
   SetInstruction,
 } from "../parser/nodes";
+import {
+  getEndOfInstructionLine,
+  getStartOfInstructionLine,
+} from "../refactoring";
+import { usesInstructionAddresses } from "../analysis/control_flow";
 
 export function getCodeActions(
   doc: MlogDocument,
@@ -81,6 +87,38 @@ export function getCodeActions(
     }
   }
 
+  const unreachableCode = codes.get(DiagnosticCode.unreachableCode) ?? [];
+
+  // removing instructions would change the addresses used by the code
+  const canRemoveInstructions =
+    unreachableCode.length > 0 &&
+    !usesInstructionAddresses(doc.unit.controlFlowGraph.instructions);
+
+  for (const diagnostic of canRemoveInstructions ? unreachableCode : []) {
+    const first = getSelectedSyntaxNode(doc, diagnostic.range.start);
+    const last = getSelectedSyntaxNode(doc, diagnostic.range.end);
+    if (!first || !last) continue;
+
+    actions.push({
+      title: "Remove unreachable code",
+      edit: {
+        changes: {
+          [doc.uri]: [
+            TextEdit.del(
+              Range.create(
+                getStartOfInstructionLine(doc, first),
+                getEndOfInstructionLine(doc, last)
+              )
+            ),
+          ],
+        },
+      },
+      diagnostics: [diagnostic],
+      kind: CodeActionKind.QuickFix,
+      isPreferred: true,
+    });
+  }
+
   for (const node of getPartiallySelectedSyntaxNodes(doc, start, end)) {
     for (const diagnostic of context.diagnostics) {
       if (!containsPosition(node, diagnostic.range.start)) continue;
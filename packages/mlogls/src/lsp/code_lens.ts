@@ -0,0 +1,104 @@
+import { CodeLens, Location, Position, Range } from "vscode-languageserver";
+import { findLabelReferences } from "../analysis/symbol_resolution";
+import { LogicalScope } from "../analysis/logical_scope";
+import { MlogDocument } from "../document";
+import { InstructionNode, LabelDeclaration } from "../parser/nodes";
+
+/**
+ * A client side command that opens the references view. Receives the uri of the
+ * document, the position of the label and the locations of the references.
+ */
+export const showReferencesCommand = "mlogls.showReferences";
+
+export function getCodeLenses(doc: MlogDocument): CodeLens[] {
+  const { nodes, unit } = doc;
+  const lenses: CodeLens[] = [];
+
+  if (nodes.length === 0) return lenses;
+
+  const instructionCount = countInstructions(doc, 0, nodes.length);
+  const { maxInstructionCount } = unit.limits;
+
+  lenses.push({
+    range: Range.create(nodes[0].start, nodes[0].start),
+    command: {
+      title: `${instructionCount} / ${maxInstructionCount} instructions`,
+      command: "",
+    },
+  });
+
+  // the references also include the declarations of the label
+  const declarations = new Set<string>();
+  for (const node of nodes) {
+    if (node instanceof LabelDeclaration) {
+      declarations.add(positionKey(node.start));
+    }
+  }
+
+  for (const node of nodes) {
+    if (!(node instanceof LabelDeclaration)) continue;
+
+    const references = findLabelReferences(node.name, nodes).filter(
+      (range) => !declarations.has(positionKey(range.start))
+    );
+
+    lenses.push({
+      range: Range.create(node.start, node.end),
+      command: {
+        title: pluralize(references.length, "reference"),
+        command: references.length > 0 ? showReferencesCommand : "",
+        arguments: [
+          doc.uri,
+          node.start,
+          references.map((range) =>
+            Location.create(doc.uri, Range.create(range.start, range.end))
+          ),
+        ],
+      },
+    });
+  }
+
+  const { instructionsPerTick, name } = unit.processor;
+
+  const traverse = (scope: LogicalScope) => {
+    const label = nodes[scope.start];
+    const count = countInstructions(doc, scope.start, scope.end);
+    const ticks = Math.ceil(count / instructionsPerTick);
+
+    lenses.push({
+      range: Range.create(label.start, label.end),
+      command: {
+        title: `${pluralize(count, "instruction")}, ~${pluralize(ticks, "tick")} on a ${name}`,
+        command: "",
+      },
+    });
+
+    for (const child of scope.children) {
+      traverse(child);
+    }
+  };
+
+  for (const scope of unit.rootScope.children) {
+    traverse(scope);
+  }
+
+  return lenses;
+}
+
+function countInstructions(doc: MlogDocument, start: number, end: number) {
+  let count = 0;
+
+  for (let i = start; i < end; i++) {
+    if (doc.nodes[i] instanceof InstructionNode) count++;
+  }
+
+  return count;
+}
+
+function positionKey(position: Position) {
+  return `${position.line}:${position.character}`;
+}
+
+function pluralize(count: number, word: string) {
+  return count === 1 ? `1 ${word}` : `${count} ${word}s`;
+}
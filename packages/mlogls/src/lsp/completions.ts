@@ -7,7 +7,11 @@ import {
 } from "vscode-languageserver";
 import { MlogDocument } from "../document";
 import { containsPosition, getSelectedSyntaxNodeIndex } from "./common";
-import { CommentLine, getInstructionNames } from "../parser/nodes";
+import {
+  CommentLine,
+  getInstructionNames,
+  isPrivilegedInstruction,
+} from "../parser/nodes";
 import { colorData } from "../constants";
 import {
   commentLineDiagnosticDirectiveKinds,
@@ -22,6 +26,12 @@ import {
 import { ignorableDiagnosticCodes } from "./protocol";
 import { findLabelsInScope } from "../analysis/logical_scope";
 import { CompletionContext } from "../analysis/types";
+import { ValueKind, formatValueKind } from "../analysis/value_kind";
+import {
+  getConstantDocs,
+  getInstructionDocs,
+  markdownDocs,
+} from "../analysis/documentation";
 
 export function getCompletions(doc: MlogDocument, position: Position) {
   const nodeIndex = getSelectedSyntaxNodeIndex(doc, position);
@@ -43,10 +53,17 @@ export function getCompletions(doc: MlogDocument, position: Position) {
     !line ||
     (selectedToken === line.tokens[0] && !selectedToken.isComment())
   ) {
+    // world-only instructions are only suggested to world processors
+    const { privileged } = doc.unit.processor;
+    const names = getInstructionNames().filter(
+      (name) => privileged || !isPrivilegedInstruction(name)
+    );
+
     return {
-      items: getInstructionNames().map((code) => ({
+      items: names.map((code) => ({
         label: code,
         kind: CompletionItemKind.Keyword,
+        documentation: markdownDocs(getInstructionDocs(code)),
       })),
       itemDefaults: {
         editRange: range,
@@ -94,8 +111,11 @@ export function getCompletions(doc: MlogDocument, position: Position) {
   const context: CompletionContext = {
     getVariableCompletions() {
       const completions: CompletionItem[] = [];
+      const { typeTable } = doc.unit;
 
       for (const symbol of doc.unit.symbolTable.values()) {
+        const kind = typeTable.getVariableKind(symbol.name);
+
         completions.push({
           label: symbol.name,
           kind: symbol.isKeyword
@@ -106,6 +126,8 @@ export function getCompletions(doc: MlogDocument, position: Position) {
             symbol.isGlobal || symbol.isBuildingLink
               ? `1${symbol.name}`
               : `0${symbol.name}`,
+          detail: kind !== ValueKind.any ? formatValueKind(kind) : undefined,
+          documentation: markdownDocs(getConstantDocs(symbol.name)),
         });
       }
 
@@ -1,16 +1,29 @@
-import { Diagnostic, Range, DiagnosticSeverity } from "vscode-languageserver";
+import {
+  Diagnostic,
+  Range,
+  DiagnosticSeverity,
+  DocumentDiagnosticReportKind,
+  FullDocumentDiagnosticReport,
+  UnchangedDocumentDiagnosticReport,
+} from "vscode-languageserver";
+import { MlogConfig } from "../config";
 import { getDiagnosingContext } from "../analysis/suppression";
 import {
   validateLabelUsage,
+  validateReachability,
+  validateHeaderDirectives,
+  validateVariableInitialization,
   validateVariableUsage,
+  validateVersionCompatibility,
 } from "../analysis/validation";
-import { maxInstructionCount } from "../constants";
 import { MlogDocument } from "../document";
 import { InstructionNode } from "../parser/nodes";
 import { DiagnosticCode } from "./protocol";
+import { hashText } from "../util/hash";
 
 export function getDocumentDiagnostics(doc: MlogDocument): Diagnostic[] {
   const context = getDiagnosingContext(doc.unit, doc.parserDiagnostics);
+  const { maxInstructionCount } = doc.unit.limits;
 
   let instructionCount = 0;
   let tooManyInstructionsRange: { start: number; end: number } | undefined;
@@ -45,6 +58,10 @@ export function getDocumentDiagnostics(doc: MlogDocument): Diagnostic[] {
 
   validateLabelUsage(doc.unit, context);
   validateVariableUsage(doc.unit, context);
+  validateReachability(doc.unit, context);
+  validateVariableInitialization(doc.unit, context);
+  validateHeaderDirectives(doc.unit, context);
+  validateVersionCompatibility(doc.unit, context);
   context.reportUnusedItems(doc.nodes);
 
   const diagnostics: Diagnostic[] = [];
@@ -58,3 +75,85 @@ export function getDocumentDiagnostics(doc: MlogDocument): Diagnostic[] {
 
   return diagnostics;
 }
+
+interface DiagnosticReport {
+  resultId: string;
+  /**
+   * The hash of the text of the document. The diagnostics only change along
+   * with the text and configuration.
+   */
+  hash: string;
+  config: MlogConfig;
+  items: Diagnostic[];
+}
+
+type DiagnosticReportResult =
+  FullDocumentDiagnosticReport | UnchangedDocumentDiagnosticReport;
+
+/**
+ * Keeps the last diagnostics computed for each document, including the ones
+ * that are not open, so that clients pulling the diagnostics of unchanged
+ * documents receive an unchanged report.
+ */
+export class DiagnosticReportCache {
+  #reports = new Map<string, DiagnosticReport>();
+  #nextId = 0;
+
+  getReport(
+    doc: MlogDocument,
+    previousResultId?: string
+  ): DiagnosticReportResult {
+    let report = this.#reports.get(doc.uri);
+
+    const hash = hashText(doc.getText());
+
+    if (report?.hash !== hash || report.config !== doc.config) {
+      report = {
+        resultId: `${this.#nextId++}`,
+        hash,
+        config: doc.config,
+        items: getDocumentDiagnostics(doc),
+      };
+      this.#reports.set(doc.uri, report);
+    }
+
+    return toReportResult(report, previousResultId);
+  }
+
+  /**
+   * Returns the stored report of a document without reading its text, which is
+   * only valid while the reports of modified files are deleted.
+   */
+  getStoredReport(
+    uri: string,
+    config: MlogConfig,
+    previousResultId?: string
+  ): DiagnosticReportResult | undefined {
+    const report = this.#reports.get(uri);
+    if (report?.config !== config) return;
+
+    return toReportResult(report, previousResultId);
+  }
+
+  delete(uri: string) {
+    this.#reports.delete(uri);
+  }
+}
+
+function toReportResult(
+  report: DiagnosticReport,
+  previousResultId: string | undefined
+): DiagnosticReportResult {
+  if (report.resultId === previousResultId) {
+    return {
+      kind: DocumentDiagnosticReportKind.Unchanged,
+      resultId: report.resultId,
+    };
+  }
+
+  return {
+    kind: DocumentDiagnosticReportKind.Full,
+    resultId: report.resultId,
+    items: report.items,
+  };
+}
@@ -0,0 +1,126 @@
+import {
+  DocumentHighlight,
+  DocumentHighlightKind,
+  Position,
+  Range,
+} from "vscode-languageserver";
+import { MlogDocument } from "../document";
+import { containsPosition, getSelectedSyntaxNode } from "./common";
+import { isDocComment } from "../analysis/doc_comments";
+import {
+  findLabelReferences,
+  findVariableUsageLocations,
+  findVariableWriteLocations,
+  labelDeclarationNameRange,
+} from "../analysis/symbol_resolution";
+import { ParameterType } from "../parser/descriptors";
+import { InstructionNode, LabelDeclaration, SyntaxNode } from "../parser/nodes";
+
+export function getDocumentHighlights(
+  doc: MlogDocument,
+  position: Position
+): DocumentHighlight[] | undefined {
+  const node = getSelectedSyntaxNode(doc, position);
+  if (!node) return;
+
+  if (
+    node instanceof LabelDeclaration &&
+    containsPosition(node.nameToken, position)
+  ) {
+    return getLabelHighlights(node.name, doc.nodes);
+  }
+
+  if (isDocComment(node) && node.docAnnotation) {
+    const { variableName, variableStart, annotationEnd } = node.docAnnotation;
+
+    const offset = position.character - node.start.character;
+    if (offset < variableStart || offset > annotationEnd) return;
+
+    return getVariableHighlights(variableName, doc.nodes);
+  }
+
+  if (!(node instanceof InstructionNode)) return;
+
+  const selectedParameter = node.parameters.find((param) =>
+    containsPosition(param.token, position)
+  );
+
+  if (!selectedParameter?.token.isIdentifier()) return;
+
+  const name = selectedParameter.token.content;
+
+  switch (selectedParameter.type) {
+    case ParameterType.variable:
+      return getVariableHighlights(name, doc.nodes);
+    case ParameterType.label:
+      return getLabelHighlights(name, doc.nodes);
+  }
+}
+
+/**
+ * Parameters written to by instructions and `@external` annotations are
+ * highlighted as writes, the other parameters are highlighted as reads and
+ * `@local` annotations are highlighted as text.
+ */
+function getVariableHighlights(
+  variable: string,
+  nodes: SyntaxNode[]
+): DocumentHighlight[] {
+  const writes = new Set<string>();
+  for (const range of findVariableWriteLocations(variable, nodes)) {
+    writes.add(positionKey(range.start));
+  }
+
+  const annotations = new Set<string>();
+  for (const node of nodes) {
+    if (!isDocComment(node) || !node.docAnnotation) continue;
+    if (node.docAnnotation.variableName !== variable) continue;
+
+    annotations.add(`${node.start.line}`);
+  }
+
+  return findVariableUsageLocations(variable, nodes).map((range) => {
+    let kind: DocumentHighlightKind = DocumentHighlightKind.Read;
+
+    if (writes.has(positionKey(range.start))) {
+      kind = DocumentHighlightKind.Write;
+    } else if (annotations.has(`${range.start.line}`)) {
+      kind = DocumentHighlightKind.Text;
+    }
+
+    return DocumentHighlight.create(toRange(range), kind);
+  });
+}
+
+/** Label declarations are highlighted as writes and jumps as reads. */
+function getLabelHighlights(
+  label: string,
+  nodes: SyntaxNode[]
+): DocumentHighlight[] {
+  const declarations = new Set<string>();
+  for (const node of nodes) {
+    if (!(node instanceof LabelDeclaration) || node.name !== label) continue;
+
+    declarations.add(
+      positionKey(labelDeclarationNameRange(node.nameToken).start)
+    );
+  }
+
+  return findLabelReferences(label, nodes).map((range) =>
+    DocumentHighlight.create(
+      toRange(range),
+      declarations.has(positionKey(range.start))
+        ? DocumentHighlightKind.Write
+        : DocumentHighlightKind.Read
+    )
+  );
+}
+
+function positionKey(position: Position) {
+  return `${position.line}:${position.character}`;
+}
+
+// tokens are ranges too, but they carry extra properties
+function toRange(range: Range) {
+  return Range.create(range.start, range.end);
+}
@@ -1,28 +1,188 @@
+import { Position, Range, TextEdit } from "vscode-languageserver";
 import { AnalysisUnit } from "../analysis/analysis_unit";
-import { LogicalScope } from "../analysis/logical_scope";
-import { CommentLine, SyntaxNode } from "../parser/nodes";
+import { LogicalScope, findInnermostScope } from "../analysis/logical_scope";
+import { MlogDocument } from "../document";
+import {
+  CommentLine,
+  InstructionNode,
+  LabelDeclaration,
+  SyntaxNode,
+} from "../parser/nodes";
 
 export interface FormatOptions {
   unit: AnalysisUnit;
   tabSize: number;
   insertSpaces: boolean;
   insertFinalNewline?: boolean;
+  /** Aligns the trailing comments of the instructions of a block. */
+  alignComments?: boolean;
+  /**
+   * Aligns the parameters of consecutive instructions with the same name into
+   * columns.
+   */
+  alignParameters?: boolean;
+  /**
+   * Whether instructions joined by `;` are placed on separate lines. Defaults
+   * to `true`.
+   */
+  splitStatements?: boolean;
+  /** The minimum amount of blank lines before a scope. Defaults to 1. */
+  blankLinesBetweenScopes?: number;
+  /** The maximum amount of consecutive blank lines. Defaults to 2. */
+  maxBlankLines?: number;
 }
 
-export function formatCode({
-  unit,
-  tabSize,
-  insertSpaces,
-  insertFinalNewline = true,
-}: FormatOptions): string {
+interface FormattedNode {
+  /** The line breaks and indentation placed before the node. */
+  prefix: string;
+  content: string;
+  level: number;
+}
+
+interface PendingNode {
+  prefix: string;
+  /** The tokens of the node, without its trailing comment. */
+  tokens: string[];
+  comment?: string;
+  level: number;
+  /** The index of the indentation block that contains the node. */
+  block: number;
+  /** Whether the node is placed on the same line as the previous one. */
+  joined: boolean;
+}
+
+export function formatCode(options: FormatOptions): string {
+  const { insertFinalNewline = true } = options;
+
+  let result = "";
+
+  for (const { prefix, content } of formatNodes(options)) {
+    result += prefix + content;
+  }
+
+  if (insertFinalNewline) {
+    result += "\n";
+  }
+
+  return result;
+}
+
+/**
+ * Returns the edits that format a document. Only the text that changes is
+ * edited, which preserves the cursor position of the client.
+ *
+ * If a range is provided, the logical scopes that contain the selected lines
+ * are formatted instead of the whole document.
+ */
+export function getFormattingEdits(
+  doc: MlogDocument,
+  options: FormatOptions,
+  range?: Range
+): TextEdit[] {
+  const { nodes } = doc;
+  const formatted = formatNodes(options);
+  const edits: TextEdit[] = [];
+
+  const [start, end] = range
+    ? getSelectedScopeBounds(options.unit, range)
+    : [0, nodes.length];
+
+  const replace = (range: Range, text: string) => {
+    if (doc.getText(range) === text) return;
+
+    edits.push(TextEdit.replace(range, text));
+  };
+
+  for (let i = start; i < end; i++) {
+    const node = nodes[i];
+    const { prefix, content } = formatted[i];
+    const previousEnd = i === 0 ? Position.create(0, 0) : nodes[i - 1].end;
+
+    replace(Range.create(previousEnd, node.start), prefix);
+    replace(Range.create(node.start, node.end), content);
+  }
+
+  if (!range && nodes.length > 0) {
+    const { insertFinalNewline = true } = options;
+    const lastNode = nodes[nodes.length - 1];
+    const documentEnd = doc.positionAt(doc.getText().length);
+
+    replace(
+      Range.create(lastNode.end, documentEnd),
+      insertFinalNewline ? "\n" : ""
+    );
+  }
+
+  return edits;
+}
+
+/**
+ * Re-indents the line of a label after its `:` is typed, or the line after a
+ * label after a line break is inserted.
+ */
+export function getOnTypeFormattingEdits(
+  doc: MlogDocument,
+  options: FormatOptions,
+  position: Position,
+  ch: string
+): TextEdit[] {
+  const { nodes } = doc;
+  const line = ch === "\n" ? position.line - 1 : position.line;
+
+  // the last node of the line is the label
+  // when the line doesn't have a `;` separator
+  let index = -1;
+  for (let i = 0; i < nodes.length; i++) {
+    if (nodes[i].start.line > line) break;
+    if (nodes[i].start.line === line) index = i;
+  }
+
+  const label = nodes[index];
+  if (!(label instanceof LabelDeclaration)) return [];
+
+  const { level } = formatNodes(options)[index];
+  const indentationUnit = getIndentationUnit(options);
+
+  if (ch === ":") {
+    if (label.nameToken.end.character !== position.character) return [];
+
+    const range = Range.create(line, 0, line, label.start.character);
+    if (doc.getText(range).trim() !== "") return [];
+
+    return [TextEdit.replace(range, indentationUnit.repeat(level))];
+  }
+
+  // the instructions after a label are part of its scope
+  const text = doc.getText(
+    Range.create(position.line, 0, position.line + 1, 0)
+  );
+  const indentation = /^[ \t]*/.exec(text)![0];
+
+  return [
+    TextEdit.replace(
+      Range.create(position.line, 0, position.line, indentation.length),
+      indentationUnit.repeat(level + 1)
+    ),
+  ];
+}
+
+function formatNodes({ unit, ...options }: FormatOptions): FormattedNode[] {
   const { nodes } = unit;
-  const identationUnit = insertSpaces ? " ".repeat(tabSize) : "\t";
+  const {
+    alignComments = false,
+    alignParameters = false,
+    splitStatements = true,
+    blankLinesBetweenScopes = 1,
+    maxBlankLines = 2,
+  } = options;
+  const identationUnit = getIndentationUnit(options);
 
   const rootBlock = unit.rootScope;
 
-  let result = "";
+  const pending: PendingNode[] = [];
   let lineNumber = 0;
   let i = 0;
+  let blockIndex = 0;
 
   for (const { start, end, level, extraLine } of indentationBlocks(
     rootBlock,
@@ -32,8 +192,33 @@ export function formatCode({
       const node = nodes[i];
       const pos = node.start;
 
+      const { tokens } = node.line;
+      const lastToken = tokens[tokens.length - 1];
+      const comment = lastToken.isComment() ? lastToken.content : undefined;
+      const code = tokens
+        .slice(0, comment === undefined ? tokens.length : -1)
+        .map((token) => token.content);
+
+      const joined =
+        !splitStatements &&
+        i > start &&
+        pos.line === lineNumber &&
+        !(node instanceof LabelDeclaration);
+
+      if (joined) {
+        pending.push({
+          prefix: "; ",
+          tokens: code,
+          comment,
+          level,
+          block: blockIndex,
+          joined,
+        });
+        continue;
+      }
+
       let minLines = 1;
-      let maxLines = 3;
+      let maxLines = maxBlankLines + 1;
 
       if (i === 0) {
         // no need to force at least one line before the first instruction
@@ -41,28 +226,178 @@ export function formatCode({
         maxLines--;
       } else if (i === start && extraLine) {
         // make sure that non-indented lines have
-        // at least one line empty line
-        // separating them from the previous block
-        minLines++;
+        // empty lines separating them from the previous block
+        minLines += blankLinesBetweenScopes;
       }
 
-      result += "\n".repeat(clamp(pos.line - lineNumber, minLines, maxLines));
+      let prefix = "\n".repeat(
+        clamp(pos.line - lineNumber, minLines, Math.max(minLines, maxLines))
+      );
 
       if (level > 0) {
-        result += identationUnit.repeat(level);
+        prefix += identationUnit.repeat(level);
       }
 
-      result += node.line.tokens.map((token) => token.content).join(" ");
+      pending.push({
+        prefix,
+        tokens: code,
+        comment,
+        level,
+        block: blockIndex,
+        joined,
+      });
 
       lineNumber = pos.line;
     }
+
+    blockIndex++;
   }
 
-  if (insertFinalNewline) {
-    result += "\n";
+  if (alignParameters) alignParameterColumns(pending, nodes);
+  if (alignComments) alignCommentColumns(pending);
+
+  return pending.map(({ prefix, tokens, comment, level }) => {
+    let content = tokens.join(" ");
+    if (comment !== undefined) {
+      content = content ? `${content} ${comment}` : comment;
+    }
+
+    return { prefix, content, level };
+  });
+}
+
+/** Whether a node is alone on its line after formatting. */
+function isAloneOnLine(pending: PendingNode[], index: number) {
+  return !pending[index].joined && !pending[index + 1]?.joined;
+}
+
+/**
+ * Pads the parameters of consecutive instructions with the same name, so that
+ * they start at the same column.
+ */
+function alignParameterColumns(pending: PendingNode[], nodes: SyntaxNode[]) {
+  const canAlign = (index: number) =>
+    nodes[index] instanceof InstructionNode && isAloneOnLine(pending, index);
+
+  let start = 0;
+  while (start < pending.length) {
+    if (!canAlign(start)) {
+      start++;
+      continue;
+    }
+
+    const { block, tokens } = pending[start];
+    let end = start + 1;
+
+    while (
+      end < pending.length &&
+      canAlign(end) &&
+      pending[end].block === block &&
+      pending[end].prefix.lastIndexOf("\n") === 0 &&
+      pending[end].tokens[0] === tokens[0]
+    ) {
+      end++;
+    }
+
+    const widths: number[] = [];
+    for (let i = start; i < end; i++) {
+      const { tokens } = pending[i];
+
+      // the last token doesn't need padding
+      for (let j = 0; j < tokens.length - 1; j++) {
+        widths[j] = Math.max(widths[j] ?? 0, tokens[j].length);
+      }
+    }
+
+    for (let i = start; i < end; i++) {
+      const { tokens } = pending[i];
+
+      for (let j = 0; j < tokens.length - 1; j++) {
+        tokens[j] = tokens[j].padEnd(widths[j]);
+      }
+    }
+
+    start = end;
   }
+}
 
-  return result;
+/**
+ * Places the trailing comments of the instructions of each indentation block at
+ * the same column.
+ */
+function alignCommentColumns(pending: PendingNode[]) {
+  const widths = new Map<number, number>();
+  const canAlign = (index: number) => {
+    const { tokens, comment } = pending[index];
+
+    return (
+      comment !== undefined &&
+      tokens.length > 0 &&
+      isAloneOnLine(pending, index)
+    );
+  };
+
+  for (let i = 0; i < pending.length; i++) {
+    if (!canAlign(i)) continue;
+
+    const { block, tokens } = pending[i];
+    const width = tokens.join(" ").length;
+    widths.set(block, Math.max(widths.get(block) ?? 0, width));
+  }
+
+  for (let i = 0; i < pending.length; i++) {
+    if (!canAlign(i)) continue;
+
+    const { block, tokens } = pending[i];
+    const width = widths.get(block)!;
+    const padding = width - tokens.join(" ").length;
+
+    tokens[tokens.length - 1] += " ".repeat(padding);
+  }
+}
+
+function getIndentationUnit(
+  options: Pick<FormatOptions, "insertSpaces" | "tabSize">
+) {
+  return options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+}
+
+/**
+ * Returns the range of node indexes covered by the logical scopes that contain
+ * the selected lines. Lines outside of labels are not expanded.
+ */
+function getSelectedScopeBounds(
+  unit: AnalysisUnit,
+  range: Range
+): [number, number] {
+  const { nodes, rootScope } = unit;
+
+  // a selection ending at the start of a line doesn't include it
+  const endLine =
+    range.end.character === 0 && range.end.line > range.start.line
+      ? range.end.line - 1
+      : range.end.line;
+
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < nodes.length; i++) {
+    const { line } = nodes[i].start;
+    if (line < range.start.line) continue;
+    if (line > endLine) break;
+
+    if (first === -1) first = i;
+    last = i;
+  }
+
+  if (first === -1) return [0, 0];
+
+  const startScope = findInnermostScope(rootScope, first);
+  const endScope = findInnermostScope(rootScope, last);
+
+  return [
+    startScope.level > 0 ? startScope.start : first,
+    endScope.level > 0 ? endScope.end : last + 1,
+  ];
 }
 
 function clamp(value: number, min: number, max: number): number {
@@ -0,0 +1,60 @@
+import { InlayHint, InlayHintKind, Range } from "vscode-languageserver";
+import { MlogDocument } from "../document";
+import { InstructionNode } from "../parser/nodes";
+import { TextToken } from "../parser/tokens";
+
+/**
+ * Shows the address of each instruction, which is the value `@counter` has when
+ * it runs, and the names of the parameters of instructions.
+ */
+export function getInlayHints(doc: MlogDocument, range: Range): InlayHint[] {
+  const hints: InlayHint[] = [];
+
+  let address = 0;
+  for (const node of doc.nodes) {
+    if (!(node instanceof InstructionNode)) continue;
+
+    const current = address++;
+    if (node.end.line < range.start.line) continue;
+    if (node.start.line > range.end.line) break;
+
+    hints.push({
+      position: node.start,
+      label: `${current}`,
+      tooltip: `Instruction address (@counter = ${current})`,
+      paddingRight: true,
+    });
+
+    for (const [name, token] of getNamedParameters(node)) {
+      // avoid redundant hints like `result: result`
+      if (token.content === name) continue;
+
+      hints.push({
+        position: token.start,
+        label: `${name}:`,
+        kind: InlayHintKind.Parameter,
+        paddingRight: true,
+      });
+    }
+  }
+
+  return hints;
+}
+
+/**
+ * Lists the parameters of an instruction and their names, skipping the variant
+ * of overloaded instructions and ignored parameters.
+ */
+function getNamedParameters(node: InstructionNode<unknown>) {
+  const entries: [string, TextToken][] = [];
+
+  for (const [name, token] of Object.entries(node.data as object)) {
+    if (name === "$type" || name === "typeToken") continue;
+    if (name.startsWith("_")) continue;
+    if (!(token instanceof TextToken)) continue;
+
+    entries.push([name, token]);
+  }
+
+  return entries;
+}
@@ -77,6 +77,14 @@ export enum DiagnosticCode {
   labelWithoutInstruction = "label-without-instruction",
   unnecessaryDiagnosticDirective = "unnecessary-diagnostic-directive",
   invalidDiagnosticDirective = "invalid-diagnostic-directive",
+  unreachableCode = "unreachable-code",
+  possiblyUninitialized = "possibly-uninitialized",
+  privilegedInstruction = "privileged-instruction",
+  versionMismatch = "version-mismatch",
+  invalidHeaderDirective = "invalid-header-directive",
+  typeMismatch = "type-mismatch",
+  unknownSensor = "unknown-sensor",
+  inapplicableSensor = "inapplicable-sensor",
 }
 
 export const diagnosticCodes = Object.values(DiagnosticCode);
@@ -0,0 +1,84 @@
+import { Position, Range, SelectionRange } from "vscode-languageserver";
+import { LogicalScope } from "../analysis/logical_scope";
+import { MlogDocument } from "../document";
+import { getSelectedSyntaxNode } from "./common";
+
+/**
+ * Expands the selection from the token at each position, to its instruction, to
+ * the enclosing logical scopes and then to the whole file.
+ */
+export function getSelectionRanges(
+  doc: MlogDocument,
+  positions: Position[]
+): SelectionRange[] {
+  return positions.map((position) => getSelectionRange(doc, position));
+}
+
+function getSelectionRange(
+  doc: MlogDocument,
+  position: Position
+): SelectionRange {
+  // from the outermost to the innermost range
+  const ranges: Range[] = [Range.create(0, 0, doc.lineCount, 0)];
+
+  // the root scope doesn't include the lines around the code
+  let scope: LogicalScope | undefined = doc.unit.rootScope;
+  while (scope && scope.end > scope.start) {
+    const range = getScopeRange(doc, scope);
+    if (!containsRangePosition(range, position)) break;
+
+    ranges.push(range);
+    scope = scope.children.find((child) =>
+      containsRangePosition(getScopeRange(doc, child), position)
+    );
+  }
+
+  const node = getSelectedSyntaxNode(doc, position);
+  if (node) {
+    ranges.push(Range.create(node.start, node.end));
+
+    const token = node.line.tokens.find((token) =>
+      containsRangePosition(token, position)
+    );
+    if (token) ranges.push(Range.create(token.start, token.end));
+  }
+
+  let selection: SelectionRange | undefined;
+  for (const range of ranges) {
+    // the client expects each range to be
+    // strictly larger than its child
+    if (selection && isSameRange(selection.range, range)) continue;
+
+    selection = SelectionRange.create(range, selection);
+  }
+
+  return selection!;
+}
+
+function getScopeRange(doc: MlogDocument, scope: LogicalScope) {
+  const { nodes } = doc;
+  return Range.create(nodes[scope.start].start, nodes[scope.end - 1].end);
+}
+
+function containsRangePosition(range: Range, position: Position) {
+  const { start, end } = range;
+
+  if (position.line < start.line || position.line > end.line) return false;
+  if (position.line === start.line && position.character < start.character) {
+    return false;
+  }
+  if (position.line === end.line && position.character > end.character) {
+    return false;
+  }
+
+  return true;
+}
+
+function isSameRange(a: Range, b: Range) {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
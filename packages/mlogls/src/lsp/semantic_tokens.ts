@@ -1,8 +1,19 @@
-import { Position } from "vscode-languageserver";
+import {
+  Position,
+  Range,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokensEdit,
+} from "vscode-languageserver";
+import { AnalysisUnit } from "../analysis/analysis_unit";
 import { TokenSemanticData } from "../analysis/types";
 import { MlogDocument } from "../document";
 
-export function getSemanticTokens(doc: MlogDocument): number[] {
+/**
+ * Encodes the semantic tokens of a document. If a range is provided, only the
+ * nodes on the lines of the range are included.
+ */
+export function getSemanticTokens(doc: MlogDocument, range?: Range): number[] {
   const data: number[] = [];
 
   if (doc.nodes.length === 0) return data;
@@ -10,6 +21,9 @@ export function getSemanticTokens(doc: MlogDocument): number[] {
   const tokens: TokenSemanticData[] = [];
 
   for (const node of doc.nodes) {
+    if (range && node.end.line < range.start.line) continue;
+    if (range && node.start.line > range.end.line) break;
+
     node.provideTokenSemantics(doc.unit, tokens);
   }
 
@@ -38,3 +52,99 @@ export function getSemanticTokens(doc: MlogDocument): number[] {
 
   return data;
 }
+
+interface SemanticTokensResult {
+  resultId: string;
+  /** The version of the document when the tokens were computed. */
+  version: number;
+  /** The analysis unit used, which changes along with the configuration. */
+  unit: AnalysisUnit;
+  data: number[];
+}
+
+/**
+ * Keeps the last semantic tokens sent for each document, so that unchanged
+ * documents are not tokenized again and clients can request only the edits made
+ * since their previous result.
+ */
+export class SemanticTokensCache {
+  #results = new Map<string, SemanticTokensResult>();
+  #nextId = 0;
+
+  getTokens(doc: MlogDocument): SemanticTokens {
+    const { resultId, data } = this.#getResult(doc);
+
+    return { resultId, data };
+  }
+
+  getTokensDelta(
+    doc: MlogDocument,
+    previousResultId: string
+  ): SemanticTokens | SemanticTokensDelta {
+    const previous = this.#results.get(doc.uri);
+    const current = this.#getResult(doc);
+
+    // the client has an older result that is no longer stored
+    if (previous?.resultId !== previousResultId) {
+      return { resultId: current.resultId, data: current.data };
+    }
+
+    return {
+      resultId: current.resultId,
+      edits:
+        previous === current ? [] : getTokenEdits(previous.data, current.data),
+    };
+  }
+
+  delete(uri: string) {
+    this.#results.delete(uri);
+  }
+
+  #getResult(doc: MlogDocument): SemanticTokensResult {
+    const cached = this.#results.get(doc.uri);
+    if (cached && cached.version === doc.version && cached.unit === doc.unit) {
+      return cached;
+    }
+
+    const result: SemanticTokensResult = {
+      resultId: `${this.#nextId++}`,
+      version: doc.version,
+      unit: doc.unit,
+      data: getSemanticTokens(doc),
+    };
+
+    this.#results.set(doc.uri, result);
+    return result;
+  }
+}
+
+/** Creates a single edit that replaces the tokens between the unchanged ends. */
+function getTokenEdits(
+  previous: number[],
+  current: number[]
+): SemanticTokensEdit[] {
+  const minLength = Math.min(previous.length, current.length);
+
+  let start = 0;
+  while (start < minLength && previous[start] === current[start]) {
+    start++;
+  }
+
+  if (start === previous.length && start === current.length) return [];
+
+  let end = 0;
+  while (
+    end < minLength - start &&
+    previous[previous.length - 1 - end] === current[current.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return [
+    {
+      start,
+      deleteCount: previous.length - start - end,
+      data: current.slice(start, current.length - end),
+    },
+  ];
+}
@@ -0,0 +1,114 @@
+import { Range, SymbolInformation, SymbolKind } from "vscode-languageserver";
+import { LogicalScope } from "../analysis/logical_scope";
+import { labelDeclarationNameRange } from "../analysis/symbol_resolution";
+import { MlogDocument } from "../document";
+import { CommentLine, LabelDeclaration } from "../parser/nodes";
+
+/**
+ * Lists the symbols of a document that are relevant outside of it: its labels,
+ * contained by the label of their parent logical scope, and the variables
+ * declared with `@external`.
+ */
+export function getWorkspaceSymbols(doc: MlogDocument): SymbolInformation[] {
+  const { nodes, uri } = doc;
+  const symbols: SymbolInformation[] = [];
+
+  const traverse = (scope: LogicalScope, containerName?: string) => {
+    const label = nodes[scope.start] as LabelDeclaration;
+
+    symbols.push(
+      SymbolInformation.create(
+        label.name,
+        SymbolKind.Function,
+        labelDeclarationNameRange(label.nameToken),
+        uri,
+        containerName
+      )
+    );
+
+    for (const child of scope.children) {
+      traverse(child, label.name);
+    }
+  };
+
+  for (const scope of doc.unit.rootScope.children) {
+    traverse(scope);
+  }
+
+  for (const node of nodes) {
+    if (!(node instanceof CommentLine)) continue;
+    if (node.docAnnotation?.kind !== "external") continue;
+
+    const { variableName, variableStart, annotationEnd } = node.docAnnotation;
+    const base = node.trailingComment.start.character;
+
+    symbols.push(
+      SymbolInformation.create(
+        variableName,
+        SymbolKind.Variable,
+        Range.create(
+          node.start.line,
+          base + variableStart,
+          node.end.line,
+          base + annotationEnd
+        ),
+        uri
+      )
+    );
+  }
+
+  return symbols;
+}
+
+/**
+ * Keeps the workspace symbols of every indexed file, including the ones that
+ * are not open in the editor.
+ */
+export class WorkspaceSymbolIndex {
+  #symbols = new Map<string, SymbolInformation[]>();
+
+  /** Indexes the symbols of a document, replacing the previous ones. */
+  update(doc: MlogDocument) {
+    this.#symbols.set(doc.uri, getWorkspaceSymbols(doc));
+  }
+
+  /** Indexes the contents of a file that is not open in the editor. */
+  updateFile(uri: string, content: string) {
+    this.update(new MlogDocument(uri, "mlog", 0, content));
+  }
+
+  delete(uri: string) {
+    this.#symbols.delete(uri);
+  }
+
+  /**
+   * Finds the symbols whose name contains the characters of the query in order,
+   * ignoring their case.
+   */
+  search(query: string): SymbolInformation[] {
+    const result: SymbolInformation[] = [];
+
+    for (const symbols of this.#symbols.values()) {
+      for (const symbol of symbols) {
+        if (!matchesQuery(symbol.name, query)) continue;
+
+        result.push(symbol);
+      }
+    }
+
+    return result;
+  }
+}
+
+function matchesQuery(name: string, query: string) {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index);
+    if (index === -1) return false;
+    index++;
+  }
+
+  return true;
+}
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  MlogConfig,
+  defaultConfig,
+  findConfigFile,
+  parseConfig,
+} from "./config";
+
+// helpers that are only available in node,
+// kept apart from the server so that it can run in browsers
+
+/** Reads a file, returning `undefined` if it can't be read. */
+export async function readFileFromUri(uri: string) {
+  try {
+    return await fs.promises.readFile(fileURLToPath(uri), "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+/** Lists the uris of the mlog files inside of a folder and its subfolders. */
+export async function findMlogFiles(folderUri: string) {
+  const uris: string[] = [];
+
+  const visit = async (directory: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith(".") || entry.name === "node_modules") {
+          continue;
+        }
+        await visit(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith(".mlog")) {
+        uris.push(pathToFileURL(entryPath).toString());
+      }
+    }
+  };
+
+  await visit(fileURLToPath(folderUri));
+  return uris;
+}
+
+/**
+ * Loads the configuration that applies to a file, either from `configUri` or
+ * from the closest `mlogls.json`. Throws if the configuration file can't be
+ * read or is not valid.
+ */
+export async function loadConfigForFile(
+  uri: string,
+  configUri?: string
+): Promise<MlogConfig> {
+  let file: { uri: string; content: string } | undefined;
+
+  if (configUri) {
+    const content = await readFileFromUri(configUri);
+    if (content === undefined) {
+      throw new Error(`Configuration file does not exist: ${configUri}`);
+    }
+
+    file = { uri: configUri, content };
+  } else {
+    file = await findConfigFile(uri, readFileFromUri);
+  }
+
+  if (!file) return defaultConfig;
+
+  let message: string;
+  try {
+    return parseConfig(JSON.parse(file.content));
+  } catch (error) {
+    message = error instanceof Error ? error.message : String(error);
+  }
+
+  throw new Error(`Invalid configuration file ${file.uri}: ${message}`);
+}
@@ -29,6 +29,14 @@ import {
   getDocTextForVariable,
 } from "../analysis/doc_comments";
 import { AnalysisUnit } from "../analysis/analysis_unit";
+import { ValueKind, formatValueKind } from "../analysis/value_kind";
+import { buildingNamePattern } from "../analysis/symbol_resolution";
+import {
+  getConstantDocs,
+  getInstructionDocs,
+  getVariantDocs,
+  markdownDocs,
+} from "../analysis/documentation";
 
 export const restrictedTokenCompletionKind = CompletionItemKind.EnumMember;
 
@@ -49,11 +57,39 @@ export interface InstructionParameter {
   type: ParameterType;
   usage: ParameterUsage;
   token: TextToken;
+  /** The kinds of values accepted by the parameter. */
+  kind?: ValueKind;
+  /** The building links accepted by the parameter. */
+  buildings?: readonly string[];
+  /** The built-in content accepted by the parameter. */
+  content?: ContentRestriction;
+}
+
+interface ContentRestriction {
+  /** Describes the accepted content in diagnostics, like `an item`. */
+  description: string;
+  /** The names of the accepted built-in variables, like `@copper`. */
+  names: readonly string[];
 }
 
 interface ParameterDescriptor {
   isOutput?: boolean;
   isLabel?: boolean;
+  /**
+   * The kinds of values accepted by an input parameter. Numbers and colors are
+   * accepted interchangeably.
+   */
+  kind?: ValueKind;
+  /**
+   * The names of the building links accepted by an input parameter, like
+   * `message` for `message1`. Any building is accepted if not specified.
+   */
+  buildings?: readonly string[];
+  /**
+   * The built-in content variables accepted by an input parameter. Any content
+   * is accepted if not specified.
+   */
+  content?: ContentRestriction;
   restrict?: {
     semanticType?: number;
     invalidPrefix: string;
@@ -82,6 +118,8 @@ export type OverloadData<
   | (DescriptorData<Pre> & { $type: "unknown"; typeToken?: TextToken });
 
 export interface InstructionDescriptor<Data> {
+  /** Whether the instruction can only be used by world processors. */
+  readonly privileged: boolean;
   parse(tokens: TextToken[]): [Data, InstructionParameter[]];
   getSignatures(): SignatureInformation[];
   getActiveSignature(data: Data): number;
@@ -133,12 +171,15 @@ export type DataOf<Inst> = Inst extends {
 
 export function createSingleDescriptor<const T extends SingleDescriptor>({
   name,
+  privileged = false,
   descriptor,
 }: {
   name: string;
+  privileged?: boolean;
   descriptor: T;
 }): InstructionDescriptor<DescriptorData<T>> {
   return {
+    privileged,
     parse(tokens) {
       const data = parseDescriptor(descriptor, tokens);
       const parameters = parseParameters(descriptor, tokens);
@@ -155,7 +196,12 @@ export function createSingleDescriptor<const T extends SingleDescriptor>({
       return provideMemberCompletions(descriptor, data, context, targetToken);
     },
     getSignatures() {
-      return [getDescriptorSignature(descriptor, name)];
+      return [
+        {
+          ...getDescriptorSignature(descriptor, name),
+          documentation: markdownDocs(getInstructionDocs(name)),
+        },
+      ];
     },
 
     provideDiagnostics(table, data, tokens, parameters, context, nodeIndex) {
@@ -189,15 +235,22 @@ export function createSingleDescriptor<const T extends SingleDescriptor>({
       const token = getTargetToken(character, tokens);
       if (!token) return;
 
-      const name = getActiveParameterName(data, token);
-      if (!name) return;
+      if (token === tokens[0]) {
+        return {
+          contents: createDocsHoverString(name, getInstructionDocs(name)),
+          range: token,
+        };
+      }
+
+      const paramName = getActiveParameterName(data, token);
+      if (!paramName) return;
 
       return {
         contents: createHoverString(
-          `parameter <${name}>`,
+          `parameter <${paramName}>`,
           unit,
           token,
-          descriptor[name]
+          descriptor[paramName]
         ),
         range: token,
       };
@@ -210,10 +263,12 @@ export function createOverloadDescriptor<
   const Pre extends SingleDescriptor = Record<string, never>,
 >({
   name,
+  privileged = false,
   pre,
   overloads,
 }: {
   name: string;
+  privileged?: boolean;
   pre?: Pre;
   overloads: T;
 }): InstructionDescriptor<OverloadData<T, Pre>> {
@@ -221,6 +276,7 @@ export function createOverloadDescriptor<
   const typeTokenIndex = preKeys.length + 1;
 
   return {
+    privileged,
     parse(tokens: TextToken[]) {
       const preData = pre
         ? parseDescriptor(pre, tokens)
@@ -286,6 +342,7 @@ export function createOverloadDescriptor<
         );
         return {
           ...signature,
+          documentation: markdownDocs(getVariantDocs(name, key)),
           parameters: [...params, ...signature.parameters!],
         };
       });
@@ -339,7 +396,9 @@ export function createOverloadDescriptor<
         const value = data[key];
         if (value !== targetToken) continue;
 
-        if (key === "typeToken") return overloadCompletionItems(overloads);
+        if (key === "typeToken") {
+          return overloadCompletionItems(name, overloads);
+        }
 
         const param = pre?.[key] ?? overloads[data.$type][key];
 
@@ -432,18 +491,38 @@ export function createOverloadDescriptor<
     provideTokenSemantics: provideSemantics,
     provideHover(data, character, unit, tokens) {
       const token = getTargetToken(character, tokens);
+      if (!token) return;
+
+      if (token === tokens[0]) {
+        return {
+          contents: createDocsHoverString(name, getInstructionDocs(name)),
+          range: token,
+        };
+      }
 
-      if (!token || token === data.typeToken) return;
+      if (token === data.typeToken) {
+        if (data.$type === "unknown") return;
 
-      const name = getActiveParameterName(data, token);
-      if (!name) return;
+        const variant = data.$type as string;
+
+        return {
+          contents: createDocsHoverString(
+            `${name} ${variant}`,
+            getVariantDocs(name, variant)
+          ),
+          range: token,
+        };
+      }
+
+      const paramName = getActiveParameterName(data, token);
+      if (!paramName) return;
 
       return {
         contents: createHoverString(
-          `parameter <${name}>`,
+          `parameter <${paramName}>`,
           unit,
           token,
-          pre?.[name] ?? overloads[data.$type]?.[name]
+          pre?.[paramName] ?? overloads[data.$type]?.[paramName]
         ),
         range: token,
       };
@@ -501,6 +580,9 @@ function parseParameters<const T extends SingleDescriptor>(
         type,
         token,
         usage,
+        kind: param.kind,
+        buildings: param.buildings,
+        content: param.content,
       });
     }
     i++;
@@ -644,6 +726,76 @@ export function validateParameters(
   }
 }
 
+/**
+ * Reports the parameters that clearly receive a kind of value that they don't
+ * accept, like a number where a building is expected.
+ */
+export function validateParameterKinds(
+  unit: AnalysisUnit,
+  parameters: InstructionParameter[],
+  diagnostics: DiagnosingContext,
+  nodeIndex: number
+) {
+  const { typeTable, symbolTable } = unit;
+
+  for (const param of parameters) {
+    if (param.usage !== ParameterUsage.read) continue;
+    if (param.type !== ParameterType.variable) continue;
+    if (param.kind === undefined) continue;
+
+    const { token } = param;
+
+    // null is the initial value of variables and is
+    // handled by instructions as the absence of a value
+    const kind: ValueKind = typeTable.getTokenKind(token) & ~ValueKind.null;
+    if (kind === ValueKind.none) continue;
+
+    if (!(withNumericColors(kind) & withNumericColors(param.kind))) {
+      diagnostics.addDiagnostic(nodeIndex, {
+        range: token,
+        message: `Expected a value of type '${formatValueKind(param.kind)}', but '${token.content}' is of type '${formatValueKind(kind)}'`,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.typeMismatch,
+      });
+      continue;
+    }
+
+    const symbol = symbolTable.get(token.content);
+
+    if (param.buildings && symbol?.isBuildingLink) {
+      const [, linkName] = buildingNamePattern.exec(token.content)!;
+      if (param.buildings.includes(linkName)) continue;
+
+      diagnostics.addDiagnostic(nodeIndex, {
+        range: token,
+        message: `Expected a link to a ${param.buildings.join(" or ")}, but '${token.content}' links to a ${linkName}`,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.typeMismatch,
+      });
+    }
+
+    // only built-in variables are known to hold a specific content
+    if (param.content && kind === ValueKind.content && symbol?.isGlobal) {
+      const { description, names } = param.content;
+      if (names.includes(token.content)) continue;
+
+      diagnostics.addDiagnostic(nodeIndex, {
+        range: token,
+        message: `Expected ${description}, but '${token.content}' is not ${description}`,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.typeMismatch,
+      });
+    }
+  }
+}
+
+/** Packed colors are numbers, so both kinds are accepted interchangeably. */
+function withNumericColors(kind: ValueKind): ValueKind {
+  return kind & (ValueKind.number | ValueKind.color)
+    ? kind | ValueKind.number | ValueKind.color
+    : kind;
+}
+
 function provideMemberCompletions<T extends SingleDescriptor>(
   descriptor: T,
   data: DescriptorData<T>,
@@ -718,11 +870,13 @@ export function getTargetParameter(
 }
 
 function overloadCompletionItems<const T extends Record<string, unknown>>(
+  name: string,
   descriptor: T
 ) {
   return Object.keys(descriptor).map((type): CompletionItem => ({
     label: type,
     kind: restrictedTokenCompletionKind,
+    documentation: markdownDocs(getVariantDocs(name, type)),
   }));
 }
 
@@ -822,12 +976,50 @@ function createHoverString(
   let value = mlogMarkdownBlock(headerCode);
   let docText = "";
 
+  if (!param?.isLabel && !param?.restrict && token.isIdentifier()) {
+    const kind = unit.typeTable.getTokenKind(token);
+
+    if (kind !== ValueKind.any) {
+      value += `\nType: \`${formatValueKind(kind)}\`\n`;
+    }
+  }
+
   if (param?.isLabel) {
     docText = getDocTextForLabel(unit.nodes, unit.rootScope, token.content);
   } else if (!param?.restrict) {
     docText = getDocTextForVariable(unit.nodes, token.content);
   }
 
+  if (!param?.isLabel) {
+    const builtInDocs = getConstantDocs(token.content);
+    if (builtInDocs) {
+      docText = docText ? `${builtInDocs}\n\n${docText}` : builtInDocs;
+    }
+  }
+
+  if (token.content === "@ipt") {
+    const { name, instructionsPerTick } = unit.processor;
+    const iptText = `Equal to ${instructionsPerTick} on a ${name}.`;
+    docText = docText ? `${docText}\n\n${iptText}` : iptText;
+  }
+
+  if (docText) {
+    value += "\n\n---\n\n" + docText;
+  }
+
+  return {
+    kind: MarkupKind.Markdown,
+    value,
+  };
+}
+
+/** Creates the hover of an instruction or variant name. */
+function createDocsHoverString(
+  headerCode: string,
+  docText: string | undefined
+): MarkupContent {
+  let value = mlogMarkdownBlock(headerCode);
+
   if (docText) {
     value += "\n\n---\n\n" + docText;
   }
@@ -7,6 +7,7 @@ import {
   DiagnosticSeverity,
   Hover,
   MarkupKind,
+  Position,
   Range,
   SignatureHelp,
   TextEdit,
@@ -28,13 +29,19 @@ import {
   InstructionParameter,
   ParameterType,
   ParameterUsage,
+  restrictedTokenCompletionKind,
+  validateParameterKinds,
 } from "./descriptors";
 import {
   colorData,
   counterVar,
   ignoreToken,
+  items,
+  liquids,
+  sensors,
   statusEffects,
   stringTemplatePattern,
+  units,
   waitVar,
 } from "../constants";
 import {
@@ -45,7 +52,10 @@ import {
 } from "./tokens";
 import { getSpellingSuggestionForName } from "../util/spelling";
 import { DiagnosingContext } from "../analysis/diagnosing_context";
-import { getLabelNames } from "../analysis/symbol_resolution";
+import {
+  buildingNamePattern,
+  getLabelNames,
+} from "../analysis/symbol_resolution";
 import { CompletionContext, TokenSemanticData } from "../analysis/types";
 import {
   getDocTextForLabel,
@@ -54,6 +64,8 @@ import {
   VarDocData,
 } from "../analysis/doc_comments";
 import { AnalysisUnit } from "../analysis/analysis_unit";
+import { ValueKind } from "../analysis/value_kind";
+import { getConstantDocs, markdownDocs } from "../analysis/documentation";
 
 export abstract class SyntaxNode {
   start: ParserPosition;
@@ -378,6 +390,19 @@ export abstract class InstructionNode<Data> extends SyntaxNode {
     nodeIndex: number
   ): void {
     super.provideDiagnostics(unit, context, nodeIndex);
+
+    const { processor } = unit;
+    if (this.descriptor.privileged && !processor.privileged) {
+      const [name] = this.line.tokens;
+
+      context.addDiagnostic(nodeIndex, {
+        range: name,
+        message: `The '${name.content}' instruction can only be used in world processors, but this file targets a ${processor.name}`,
+        severity: DiagnosticSeverity.Error,
+        code: DiagnosticCode.privilegedInstruction,
+      });
+    }
+
     this.descriptor.provideDiagnostics(
       unit.symbolTable,
       this.data,
@@ -386,6 +411,8 @@ export abstract class InstructionNode<Data> extends SyntaxNode {
       context,
       nodeIndex
     );
+
+    validateParameterKinds(unit, this.parameters, context, nodeIndex);
   }
 
   provideTokenSemantics(unit: AnalysisUnit, tokens: TokenSemanticData[]): void {
@@ -468,6 +495,30 @@ export abstract class InstructionNode<Data> extends SyntaxNode {
         if (!suggestion) break;
 
         actions.push(createSpellingAction(diagnostic, unit.uri, suggestion));
+        break;
+      }
+      case DiagnosticCode.privilegedInstruction: {
+        const directive = unit.processorDirective;
+        const edit = directive
+          ? TextEdit.replace(
+              Range.create(directive.start, directive.end),
+              directive.value ? "world" : " world"
+            )
+          : TextEdit.insert(
+              Position.create(0, 0),
+              "# mlogls-processor world\n"
+            );
+
+        actions.push({
+          title: "Target a world processor",
+          edit: {
+            changes: {
+              [unit.uri]: [edit],
+            },
+          },
+          diagnostics: [diagnostic],
+          kind: CodeActionKind.QuickFix,
+        });
       }
     }
   }
@@ -600,8 +651,8 @@ export class ReadInstruction extends InstructionNode<
     name: "read",
     descriptor: {
       output: { isOutput: true },
-      target: {},
-      address: {},
+      target: { kind: ValueKind.building },
+      address: { kind: ValueKind.number | ValueKind.string },
     },
   });
 
@@ -622,8 +673,8 @@ export class WriteInstruction extends InstructionNode<
     name: "write",
     descriptor: {
       input: {},
-      target: {},
-      address: {},
+      target: { kind: ValueKind.building },
+      address: { kind: ValueKind.number | ValueKind.string },
     },
   });
 
@@ -784,7 +835,9 @@ export class DrawFlushInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "drawflush",
-    descriptor: { target: {} },
+    descriptor: {
+      target: { kind: ValueKind.building, buildings: ["display"] },
+    },
   });
 
   static parse(this: void, line: TokenLine) {
@@ -801,7 +854,9 @@ export class PrintFlushInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "printflush",
-    descriptor: { target: {} },
+    descriptor: {
+      target: { kind: ValueKind.building, buildings: ["message"] },
+    },
   });
 
   static parse(this: void, line: TokenLine) {
@@ -821,7 +876,7 @@ export class GetLinkInstruction extends InstructionNode<
     name: "getlink",
     descriptor: {
       result: { isOutput: true },
-      index: {},
+      index: { kind: ValueKind.number },
     },
   });
 
@@ -841,11 +896,26 @@ export class ControlInstruction extends InstructionNode<
   static readonly descriptor = createOverloadDescriptor({
     name: "control",
     overloads: {
-      enabled: { building: {}, enabled: {} },
-      shoot: { building: {}, x: {}, y: {}, shoot: {} },
-      shootp: { building: {}, unit: {}, shoot: {} },
-      config: { building: {}, value: {} },
-      color: { building: {}, color: {} },
+      enabled: {
+        building: { kind: ValueKind.building },
+        enabled: { kind: ValueKind.number },
+      },
+      shoot: {
+        building: { kind: ValueKind.building },
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+        shoot: { kind: ValueKind.number },
+      },
+      shootp: {
+        building: { kind: ValueKind.building },
+        unit: { kind: ValueKind.unit | ValueKind.building },
+        shoot: { kind: ValueKind.number },
+      },
+      config: { building: { kind: ValueKind.building }, value: {} },
+      color: {
+        building: { kind: ValueKind.building },
+        color: { kind: ValueKind.color },
+      },
     },
   });
 
@@ -908,8 +978,8 @@ export class RadarInstruction extends InstructionNode<
           values: radarSorts,
         },
       },
-      building: {},
-      order: {},
+      building: { kind: ValueKind.building },
+      order: { kind: ValueKind.number },
       output: { isOutput: true },
     },
   });
@@ -921,6 +991,109 @@ export class RadarInstruction extends InstructionNode<
   }
 }
 
+/**
+ * The properties that can be sensed, including the amounts of items and
+ * liquids.
+ */
+const sensableProperties = [...sensors, ...items, ...liquids];
+
+const turretLinkNames = [
+  "duo",
+  "scatter",
+  "scorch",
+  "hail",
+  "wave",
+  "lancer",
+  "arc",
+  "parallax",
+  "swarmer",
+  "salvo",
+  "segment",
+  "tsunami",
+  "fuse",
+  "ripple",
+  "cyclone",
+  "foreshadow",
+  "spectre",
+  "meltdown",
+  "breach",
+  "diffuse",
+  "sublimate",
+  "titan",
+  "disperse",
+  "afflict",
+  "lustre",
+  "scathe",
+  "smite",
+  "malign",
+];
+
+const payloadUnits = [
+  "@mega",
+  "@quad",
+  "@oct",
+  "@evoke",
+  "@incite",
+  "@emanate",
+];
+
+interface SensorTargets {
+  /**
+   * The building links that have the sensor, or `false` if no building has it.
+   * Every building is accepted if not specified.
+   */
+  buildings?: readonly string[] | false;
+  /**
+   * The unit types that have the sensor, or `false` if no unit has it. Every
+   * unit is accepted if not specified.
+   */
+  units?: readonly string[] | false;
+}
+
+/** The sensors of the targets that are neither buildings nor units. */
+const objectSensors: { kind: ValueKind; properties: readonly string[] }[] = [
+  { kind: ValueKind.content | ValueKind.team, properties: ["@name", "@id"] },
+  { kind: ValueKind.string, properties: ["@size"] },
+];
+
+/**
+ * The kinds of values that can be sensed. Besides buildings and units, content
+ * and teams have a name and an id, and strings have a size.
+ */
+const sensorTargetKinds =
+  ValueKind.building |
+  ValueKind.unit |
+  ValueKind.content |
+  ValueKind.team |
+  ValueKind.string;
+
+/** The sensors that are only meaningful for some buildings or units. */
+const sensorTargets: Record<string, SensorTargets> = {
+  "@ammo": { buildings: turretLinkNames },
+  "@ammoCapacity": { buildings: turretLinkNames },
+  "@currentAmmoType": { buildings: turretLinkNames },
+  "@memoryCapacity": { buildings: ["cell", "bank"], units: false },
+  "@displayWidth": { buildings: ["display"], units: false },
+  "@displayHeight": { buildings: ["display"], units: false },
+  "@powerNetStored": { units: false },
+  "@powerNetCapacity": { units: false },
+  "@powerNetIn": { units: false },
+  "@powerNetOut": { units: false },
+  "@heat": { units: false },
+  "@efficiency": { units: false },
+  "@timescale": { units: false },
+  "@mineX": { buildings: false },
+  "@mineY": { buildings: false },
+  "@mining": { buildings: false },
+  "@boosting": { buildings: false },
+  "@flag": { buildings: false },
+  "@flying": { buildings: false },
+  "@payloadCount": { units: payloadUnits },
+  "@payloadType": { units: payloadUnits },
+  "@totalPayload": { units: payloadUnits },
+  "@payloadCapacity": { units: payloadUnits },
+};
+
 export class SensorInstruction extends InstructionNode<
   DataOf<typeof SensorInstruction>
 > {
@@ -930,17 +1103,176 @@ export class SensorInstruction extends InstructionNode<
     name: "sensor",
     descriptor: {
       output: { isOutput: true },
-      target: {},
+      target: { kind: sensorTargetKinds },
       property: {},
     },
   });
 
   static parse(this: void, line: TokenLine) {
-    return new SensorInstruction(
-      line,
-      ...SensorInstruction.descriptor.parse(line.tokens)
+    const [data, params] = SensorInstruction.descriptor.parse(line.tokens);
+
+    // built-in properties are validated by the instruction,
+    // while other names are variables that store a property
+    const property = params.find((param) => param.token === data.property);
+    if (property?.token.content.startsWith("@")) {
+      property.type = ParameterType.enumMember;
+    }
+
+    return new SensorInstruction(line, data, params);
+  }
+
+  provideDiagnostics(
+    unit: AnalysisUnit,
+    context: DiagnosingContext,
+    nodeIndex: number
+  ): void {
+    super.provideDiagnostics(unit, context, nodeIndex);
+
+    const { target, property } = this.data;
+    if (!property?.content.startsWith("@")) return;
+
+    if (!sensableProperties.includes(property.content)) {
+      let message = `Unknown sensor: '${property.content}'`;
+
+      const suggestion = getSpellingSuggestionForName(
+        property.content,
+        sensableProperties
+      );
+      if (suggestion) message += `. Did you mean '${suggestion}'?`;
+
+      context.addDiagnostic(nodeIndex, {
+        range: property,
+        message,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.unknownSensor,
+      });
+      return;
+    }
+
+    if (!target) return;
+
+    if (!isSensorTarget(unit, target, property.content)) {
+      context.addDiagnostic(nodeIndex, {
+        range: property,
+        message: `'${property.content}' is not meaningful for '${target.content}'`,
+        severity: DiagnosticSeverity.Warning,
+        code: DiagnosticCode.inapplicableSensor,
+      });
+    }
+  }
+
+  provideCodeActions(
+    unit: AnalysisUnit,
+    diagnostic: Diagnostic,
+    actions: (CodeAction | Command)[]
+  ): void {
+    super.provideCodeActions(unit, diagnostic, actions);
+    if (diagnostic.code !== DiagnosticCode.unknownSensor) return;
+
+    const { property } = this.data;
+    if (!property) return;
+
+    const suggestion = getSpellingSuggestionForName(
+      property.content,
+      sensableProperties
+    );
+    if (!suggestion) return;
+
+    actions.push(createSpellingAction(diagnostic, unit.uri, suggestion));
+  }
+
+  provideCompletionItems(
+    context: CompletionContext,
+    character: number
+  ): CompletionItem[] {
+    const targetToken = getTargetToken(character, this.line.tokens);
+    const { output, target, property } = this.data;
+
+    // when the tokens are missing, the first missing parameter is completed
+    if (
+      targetToken !== property ||
+      targetToken === output ||
+      targetToken === target
+    ) {
+      return super.provideCompletionItems(context, character);
+    }
+
+    return sensableProperties.map((name) => ({
+      label: name,
+      kind: restrictedTokenCompletionKind,
+      documentation: markdownDocs(getConstantDocs(name)),
+    }));
+  }
+}
+
+/**
+ * Checks whether a sensor is meaningful for its target, when the kind of value,
+ * building or the type of unit that is sensed is known. Targets that may hold
+ * several kinds of values only need one of them to have the sensor.
+ */
+function isSensorTarget(
+  unit: AnalysisUnit,
+  target: TextToken,
+  property: string
+) {
+  const targets = sensorTargets[property] ?? {};
+  const symbol = unit.symbolTable.get(target.content);
+
+  if (symbol?.isBuildingLink) {
+    const [, linkName] = buildingNamePattern.exec(target.content)!;
+    const { buildings } = targets;
+
+    return (
+      buildings === undefined || (!!buildings && buildings.includes(linkName))
     );
   }
+
+  const kind: ValueKind = unit.typeTable.getTokenKind(target) & ~ValueKind.null;
+
+  // kinds that can't be sensed are reported by the parameter validation
+  if (!(kind & sensorTargetKinds)) return true;
+
+  if (kind & ValueKind.building && targets.buildings !== false) return true;
+  if (kind & ValueKind.unit && isUnitSensorTarget(unit, target, targets)) {
+    return true;
+  }
+
+  return objectSensors.some(
+    (sensors) => kind & sensors.kind && sensors.properties.includes(property)
+  );
+}
+
+function isUnitSensorTarget(
+  unit: AnalysisUnit,
+  target: TextToken,
+  targets: SensorTargets
+) {
+  const unitTypes = targets.units;
+  if (unitTypes === false) return false;
+  if (unitTypes === undefined || target.content !== "@unit") return true;
+
+  const boundTypes = getBoundUnitTypes(unit.nodes);
+
+  return !boundTypes || boundTypes.some((type) => unitTypes.includes(type));
+}
+
+/**
+ * Returns the unit types bound by the `ubind` instructions of the code, or
+ * `undefined` if any of them binds a unit that isn't known.
+ */
+function getBoundUnitTypes(nodes: SyntaxNode[]) {
+  const types: string[] = [];
+
+  for (const node of nodes) {
+    if (!(node instanceof UnitBindInstruction)) continue;
+
+    const { unit } = node.data;
+    if (!unit || !units.includes(unit.content)) return;
+
+    types.push(unit.content);
+  }
+
+  if (types.length > 0) return types;
 }
 
 export class SetInstruction extends InstructionNode<
@@ -1040,7 +1372,7 @@ export class WaitInstruction extends InstructionNode<
   static readonly descriptor = createSingleDescriptor({
     name: "wait",
     descriptor: {
-      seconds: {},
+      seconds: { kind: ValueKind.number },
     },
   });
 
@@ -1097,11 +1429,11 @@ export class LookupInstruction extends InstructionNode<
   static readonly descriptor = createOverloadDescriptor({
     name: "lookup",
     overloads: {
-      block: { result: { isOutput: true }, id: {} },
-      unit: { result: { isOutput: true }, id: {} },
-      item: { result: { isOutput: true }, id: {} },
-      liquid: { result: { isOutput: true }, id: {} },
-      team: { result: { isOutput: true }, id: {} },
+      block: { result: { isOutput: true }, id: { kind: ValueKind.number } },
+      unit: { result: { isOutput: true }, id: { kind: ValueKind.number } },
+      item: { result: { isOutput: true }, id: { kind: ValueKind.number } },
+      liquid: { result: { isOutput: true }, id: { kind: ValueKind.number } },
+      team: { result: { isOutput: true }, id: { kind: ValueKind.number } },
     },
   });
 
@@ -1122,10 +1454,10 @@ export class PackColorInstruction extends InstructionNode<
     name: "packcolor",
     descriptor: {
       result: { isOutput: true },
-      red: {},
-      green: {},
-      blue: {},
-      alpha: {},
+      red: { kind: ValueKind.number },
+      green: { kind: ValueKind.number },
+      blue: { kind: ValueKind.number },
+      alpha: { kind: ValueKind.number },
     },
   });
 
@@ -1244,7 +1576,7 @@ export class UnpackColorInstruction extends InstructionNode<
       green: { isOutput: true },
       blue: { isOutput: true },
       alpha: { isOutput: true },
-      value: {},
+      value: { kind: ValueKind.color },
     },
   });
 
@@ -1380,7 +1712,7 @@ export class UnitBindInstruction extends InstructionNode<
   static readonly descriptor = createSingleDescriptor({
     name: "ubind",
     descriptor: {
-      unit: {},
+      unit: { kind: ValueKind.unit | ValueKind.content },
     },
   });
 
@@ -1401,25 +1733,59 @@ export class UnitControlInstruction extends InstructionNode<
     overloads: {
       idle: {},
       stop: {},
-      move: { x: {}, y: {} },
-      approach: { x: {}, y: {}, radius: {} },
-      pathfind: { x: {}, y: {} },
+      move: { x: { kind: ValueKind.number }, y: { kind: ValueKind.number } },
+      approach: {
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+        radius: { kind: ValueKind.number },
+      },
+      pathfind: {
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+      },
       autoPathfind: {},
-      boost: { enabled: {} },
-      target: { x: {}, y: {}, shoot: {} },
-      targetp: { unit: {}, shoot: {} },
-      itemDrop: { to: {}, amount: {} },
-      itemTake: { from: {}, item: {}, amount: {} },
+      boost: { enabled: { kind: ValueKind.number } },
+      target: {
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+        shoot: { kind: ValueKind.number },
+      },
+      targetp: {
+        unit: { kind: ValueKind.unit | ValueKind.building },
+        shoot: { kind: ValueKind.number },
+      },
+      // items can be dropped into the air with @air
+      itemDrop: {
+        to: { kind: ValueKind.building | ValueKind.content },
+        amount: { kind: ValueKind.number },
+      },
+      itemTake: {
+        from: { kind: ValueKind.building },
+        item: {
+          kind: ValueKind.content,
+          content: { description: "an item", names: items },
+        },
+        amount: { kind: ValueKind.number },
+      },
       payDrop: {},
-      payTake: { takeUnits: {} },
+      payTake: { takeUnits: { kind: ValueKind.number } },
       payEnter: {},
-      mine: { x: {}, y: {} },
-      flag: { value: {} },
-      build: { x: {}, y: {}, block: {}, rotation: {}, config: {} },
-      deconstruct: { x: {}, y: {} },
+      mine: { x: { kind: ValueKind.number }, y: { kind: ValueKind.number } },
+      flag: { value: { kind: ValueKind.number } },
+      build: {
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+        block: { kind: ValueKind.content },
+        rotation: { kind: ValueKind.number },
+        config: {},
+      },
+      deconstruct: {
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+      },
       getBlock: {
-        x: {},
-        y: {},
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
         type: { isOutput: true },
         building: { isOutput: true },
         floor: { isOutput: true },
@@ -1469,7 +1835,7 @@ export class UnitRadarinstruction extends InstructionNode<
         },
       },
       _: {},
-      order: {},
+      order: { kind: ValueKind.number },
       output: { isOutput: true },
     },
   });
@@ -1510,7 +1876,7 @@ export class UnitLocateInstruction extends InstructionNode<
           },
         },
         _enemy: {},
-        ore: {},
+        ore: { kind: ValueKind.content },
         x: { isOutput: true },
         y: { isOutput: true },
         found: { isOutput: true },
@@ -1573,6 +1939,7 @@ export class GetBlockInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "getblock",
+    privileged: true,
     overloads: {
       floor: {
         result: { isOutput: true },
@@ -1611,6 +1978,7 @@ export class SetBlockInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "setblock",
+    privileged: true,
     overloads: {
       floor: {
         to: {},
@@ -1623,11 +1991,11 @@ export class SetBlockInstruction extends InstructionNode<
         y: {},
       },
       block: {
-        to: {},
-        x: {},
-        y: {},
-        team: {},
-        rotation: {},
+        to: { kind: ValueKind.content },
+        x: { kind: ValueKind.number },
+        y: { kind: ValueKind.number },
+        team: { kind: ValueKind.team },
+        rotation: { kind: ValueKind.number },
       },
     },
   });
@@ -1646,12 +2014,13 @@ export class SpawnUnitInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "spawn",
+    privileged: true,
     descriptor: {
-      unitType: {},
-      x: {},
-      y: {},
-      rotation: {},
-      team: {},
+      unitType: { kind: ValueKind.content },
+      x: { kind: ValueKind.number },
+      y: { kind: ValueKind.number },
+      rotation: { kind: ValueKind.number },
+      team: { kind: ValueKind.team },
       result: { isOutput: true },
       effect: {},
     },
@@ -1671,6 +2040,7 @@ export class SpawnBulletInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "bullet",
+    privileged: true,
     descriptor: {
       result: {},
       from: {},
@@ -1702,9 +2072,10 @@ export class SenseWeatherInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "weathersense",
+    privileged: true,
     descriptor: {
       result: { isOutput: true },
-      weather: {},
+      weather: { kind: ValueKind.content },
     },
   });
 
@@ -1722,9 +2093,10 @@ export class SetWeatherInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "weatherset",
+    privileged: true,
     descriptor: {
-      weather: {},
-      active: {},
+      weather: { kind: ValueKind.content },
+      active: { kind: ValueKind.number },
     },
   });
 
@@ -1742,6 +2114,7 @@ export class ApplyStatusInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "status",
+    privileged: true,
     overloads: {
       // clear status effect
       true: {
@@ -1776,6 +2149,7 @@ export class SpawnWaveInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "spawnwave",
+    privileged: true,
     descriptor: {
       x: {},
       y: {},
@@ -1804,6 +2178,7 @@ export class SetRuleInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "setrule",
+    privileged: true,
     overloads: {
       currentWaveTime: {
         seconds: {},
@@ -1922,6 +2297,7 @@ export class FlushMessageInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "message",
+    privileged: true,
     overloads: {
       notify: {
         _: {},
@@ -1959,6 +2335,7 @@ export class CutsceneInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "cutscene",
+    privileged: true,
     overloads: {
       active: {
         result: { isOutput: true },
@@ -1999,6 +2376,7 @@ export class EffectInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "effect",
+    privileged: true,
     overloads: {
       warn: {
         x: {},
@@ -2199,6 +2577,7 @@ export class ExplosionInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "explosion",
+    privileged: true,
     descriptor: {
       team: {},
       x: {},
@@ -2226,6 +2605,7 @@ export class SetRateInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "setrate",
+    privileged: true,
     descriptor: {
       rate: {},
     },
@@ -2245,48 +2625,49 @@ export class FetchInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "fetch",
+    privileged: true,
     overloads: {
       unit: {
         result: { isOutput: true },
-        team: {},
-        index: {},
-        unitType: {},
+        team: { kind: ValueKind.team },
+        index: { kind: ValueKind.number },
+        unitType: { kind: ValueKind.content },
       },
       unitCount: {
         result: { isOutput: true },
-        team: {},
+        team: { kind: ValueKind.team },
         _: {},
-        unitType: {},
+        unitType: { kind: ValueKind.content },
       },
       player: {
         result: { isOutput: true },
-        team: {},
-        index: {},
+        team: { kind: ValueKind.team },
+        index: { kind: ValueKind.number },
       },
       playerCount: {
         result: { isOutput: true },
-        team: {},
+        team: { kind: ValueKind.team },
       },
       core: {
         result: { isOutput: true },
-        team: {},
-        index: {},
+        team: { kind: ValueKind.team },
+        index: { kind: ValueKind.number },
       },
       coreCount: {
         result: { isOutput: true },
-        team: {},
+        team: { kind: ValueKind.team },
       },
       build: {
         result: { isOutput: true },
-        team: {},
-        index: {},
-        blockType: {},
+        team: { kind: ValueKind.team },
+        index: { kind: ValueKind.number },
+        blockType: { kind: ValueKind.content },
       },
       buildCount: {
         result: { isOutput: true },
-        team: {},
+        team: { kind: ValueKind.team },
         _: {},
-        blockType: {},
+        blockType: { kind: ValueKind.content },
       },
     },
   });
@@ -2305,6 +2686,7 @@ export class QueryInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "query",
+    privileged: true,
     overloads: {
       circle: {
         type: {
@@ -2347,6 +2729,7 @@ export class SyncInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "sync",
+    privileged: true,
     descriptor: {
       variable: {},
     },
@@ -2366,6 +2749,7 @@ export class GetFlagInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "getflag",
+    privileged: true,
     descriptor: {
       output: { isOutput: true },
       flagName: {},
@@ -2386,6 +2770,7 @@ export class SetFlagInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "setflag",
+    privileged: true,
     descriptor: {
       flagName: {},
       enabled: {},
@@ -2406,6 +2791,7 @@ export class SetPropInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "setprop",
+    privileged: true,
     descriptor: {
       property: {},
       target: {},
@@ -2427,6 +2813,7 @@ export class PlaySoundInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "playsound",
+    privileged: true,
     overloads: {
       // global
       false: {
@@ -2465,6 +2852,7 @@ export class PlayMusicInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "playmusic",
+    privileged: true,
     descriptor: {
       name: {},
       interrupt: {},
@@ -2485,6 +2873,7 @@ export class SetMarkerInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "setmarker",
+    privileged: true,
     overloads: {
       remove: { id: {} },
       world: { id: {}, bool: {} },
@@ -2551,6 +2940,7 @@ export class MakeMakerInstruction extends InstructionNode<
 
   static readonly descriptor = createOverloadDescriptor({
     name: "makemarker",
+    privileged: true,
     overloads: {
       shapeText: { id: {}, x: {}, y: {}, replace: {} },
       point: { id: {}, x: {}, y: {}, replace: {} },
@@ -2576,6 +2966,7 @@ export class PrintLocaleInstruction extends InstructionNode<
 
   static readonly descriptor = createSingleDescriptor({
     name: "printlocale",
+    privileged: true,
     descriptor: {
       key: {},
     },
@@ -2588,63 +2979,75 @@ export class PrintLocaleInstruction extends InstructionNode<
   }
 }
 
-const instructionParsers: Record<string, (line: TokenLine) => SyntaxNode> = {
-  noop: NoopInstruction.parse,
-  read: ReadInstruction.parse,
-  write: WriteInstruction.parse,
-  draw: DrawInstruction.parse,
-  print: PrintInstruction.parse,
-  printchar: PrintCharInstruction.parse,
-  format: FormatInstruction.parse,
-  drawflush: DrawFlushInstruction.parse,
-  printflush: PrintFlushInstruction.parse,
-  getlink: GetLinkInstruction.parse,
-  control: ControlInstruction.parse,
-  radar: RadarInstruction.parse,
-  sensor: SensorInstruction.parse,
-  set: SetInstruction.parse,
-  op: OpInstruction.parse,
-  wait: WaitInstruction.parse,
-  stop: StopInstruction.parse,
-  lookup: LookupInstruction.parse,
-  packcolor: PackColorInstruction.parse,
-  unpackcolor: UnpackColorInstruction.parse,
-  end: EndInstruction.parse,
-  jump: JumpInstruction.parse,
-  select: SelectInstruction.parse,
-  ubind: UnitBindInstruction.parse,
-  ucontrol: UnitControlInstruction.parse,
-  uradar: UnitRadarinstruction.parse,
-  ulocate: UnitLocateInstruction.parse,
-  getblock: GetBlockInstruction.parse,
-  setblock: SetBlockInstruction.parse,
-  spawn: SpawnUnitInstruction.parse,
-  bullet: SpawnBulletInstruction.parse,
-  weathersense: SenseWeatherInstruction.parse,
-  weatherset: SetWeatherInstruction.parse,
-  status: ApplyStatusInstruction.parse,
-  spawnwave: SpawnWaveInstruction.parse,
-  setrule: SetRuleInstruction.parse,
-  message: FlushMessageInstruction.parse,
-  cutscene: CutsceneInstruction.parse,
-  effect: EffectInstruction.parse,
-  explosion: ExplosionInstruction.parse,
-  setrate: SetRateInstruction.parse,
-  fetch: FetchInstruction.parse,
-  query: QueryInstruction.parse,
-  sync: SyncInstruction.parse,
-  getflag: GetFlagInstruction.parse,
-  setflag: SetFlagInstruction.parse,
-  setprop: SetPropInstruction.parse,
-  playsound: PlaySoundInstruction.parse,
-  playmusic: PlayMusicInstruction.parse,
-  setmarker: SetMarkerInstruction.parse,
-  makemarker: MakeMakerInstruction.parse,
-  printlocale: PrintLocaleInstruction.parse,
-};
+interface InstructionType {
+  parse(this: void, line: TokenLine): SyntaxNode;
+  descriptor: InstructionDescriptor<unknown>;
+}
+
+const instructionTypes = new Map<string, InstructionType>(
+  Object.entries({
+    noop: NoopInstruction,
+    read: ReadInstruction,
+    write: WriteInstruction,
+    draw: DrawInstruction,
+    print: PrintInstruction,
+    printchar: PrintCharInstruction,
+    format: FormatInstruction,
+    drawflush: DrawFlushInstruction,
+    printflush: PrintFlushInstruction,
+    getlink: GetLinkInstruction,
+    control: ControlInstruction,
+    radar: RadarInstruction,
+    sensor: SensorInstruction,
+    set: SetInstruction,
+    op: OpInstruction,
+    wait: WaitInstruction,
+    stop: StopInstruction,
+    lookup: LookupInstruction,
+    packcolor: PackColorInstruction,
+    unpackcolor: UnpackColorInstruction,
+    end: EndInstruction,
+    jump: JumpInstruction,
+    select: SelectInstruction,
+    ubind: UnitBindInstruction,
+    ucontrol: UnitControlInstruction,
+    uradar: UnitRadarinstruction,
+    ulocate: UnitLocateInstruction,
+    getblock: GetBlockInstruction,
+    setblock: SetBlockInstruction,
+    spawn: SpawnUnitInstruction,
+    bullet: SpawnBulletInstruction,
+    weathersense: SenseWeatherInstruction,
+    weatherset: SetWeatherInstruction,
+    status: ApplyStatusInstruction,
+    spawnwave: SpawnWaveInstruction,
+    setrule: SetRuleInstruction,
+    message: FlushMessageInstruction,
+    cutscene: CutsceneInstruction,
+    effect: EffectInstruction,
+    explosion: ExplosionInstruction,
+    setrate: SetRateInstruction,
+    fetch: FetchInstruction,
+    query: QueryInstruction,
+    sync: SyncInstruction,
+    getflag: GetFlagInstruction,
+    setflag: SetFlagInstruction,
+    setprop: SetPropInstruction,
+    playsound: PlaySoundInstruction,
+    playmusic: PlayMusicInstruction,
+    setmarker: SetMarkerInstruction,
+    makemarker: MakeMakerInstruction,
+    printlocale: PrintLocaleInstruction,
+  })
+);
 
 export function getInstructionNames() {
-  return Object.keys(instructionParsers);
+  return [...instructionTypes.keys()];
+}
+
+/** Whether the instruction can only be used by world processors. */
+export function isPrivilegedInstruction(name: string) {
+  return !!instructionTypes.get(name)?.descriptor.privileged;
 }
 
 function parseLine(line: TokenLine) {
@@ -2654,8 +3057,8 @@ function parseLine(line: TokenLine) {
   if (first.isIdentifier() && first.content.endsWith(":"))
     return new LabelDeclaration(line);
 
-  const parse = instructionParsers[first.content];
-  if (parse) return parse(line);
+  const type = instructionTypes.get(first.content);
+  if (type) return type.parse(line);
 
   return UnknownInstruction.parse(line);
 }
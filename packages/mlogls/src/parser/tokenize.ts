@@ -37,7 +37,11 @@ const missingSpaceErrorMessage = "Expected space after string.";
 
 // adapted from
 // https://github.com/Anuken/Mindustry/blob/cb7f641ed60a9ef58b89d4c74da5efcb80d9b1f5/core/src/mindustry/logic/LParser.java
-export function tokenize(chars: string) {
+/**
+ * Splits the text into token lines. `lineOffset` is the line number of the
+ * first line of the text, used when tokenizing part of a document.
+ */
+export function tokenize(chars: string, lineOffset = 0) {
   const diagnostics: ParserDiagnostic[] = [];
   let tokens: TextToken[] = [];
   const lines: TokenLine[] = [];
@@ -47,7 +51,7 @@ export function tokenize(chars: string) {
   };
 
   let pos = 0;
-  let line = 0;
+  let line = lineOffset;
   let lineStart = 0;
 
   while (pos < chars.length) {
@@ -102,8 +106,11 @@ export function tokenize(chars: string) {
         message: 'Missing closing quote " before end of line.',
         code: DiagnosticCode.unclosedString,
       });
+    } else {
+      // the line break after an unclosed string must not be skipped,
+      // otherwise the next line would be tokenized as part of this one
+      pos++;
     }
-    pos++;
     const end = getCurrentLocation();
     const endPos = pos;
     return new StringToken(start, end, chars.slice(startPos, endPos));
@@ -141,7 +148,8 @@ export function tokenize(chars: string) {
     )
       return new ColorLiteralToken(start, end, content);
     const maybeNumber = parseNumber(content, start, diagnostics);
-    if (maybeNumber !== undefined) return new NumberToken(start, end, content);
+    if (maybeNumber !== undefined)
+      return new NumberToken(start, end, content, maybeNumber);
     return new IdentifierToken(start, end, content);
   }
 
@@ -230,6 +238,45 @@ export function tokenize(chars: string) {
   return { lines, diagnostics };
 }
 
+/**
+ * Creates a copy of a token line moved by `lineDelta` lines. The tokens are
+ * copied as well, so the original line can still be used by older analyses.
+ */
+export function shiftTokenLine(line: TokenLine, lineDelta: number) {
+  // positions are shared between the line and its tokens
+  const positions = new Map<ParserPosition, ParserPosition>();
+  const shift = (position: ParserPosition) => {
+    let shifted = positions.get(position);
+    if (!shifted) {
+      shifted = new ParserPosition(
+        position.line + lineDelta,
+        position.character
+      );
+      positions.set(position, shifted);
+    }
+
+    return shifted;
+  };
+
+  const tokens = line.tokens.map((token): TextToken => {
+    const start = shift(token.start);
+    const end = shift(token.end);
+
+    if (token instanceof NumberToken)
+      return new NumberToken(start, end, token.content, token.value);
+    if (token instanceof StringToken)
+      return new StringToken(start, end, token.content);
+    if (token instanceof CommentToken)
+      return new CommentToken(start, end, token.content);
+    if (token instanceof ColorLiteralToken)
+      return new ColorLiteralToken(start, end, token.content);
+
+    return new IdentifierToken(start, end, token.content);
+  });
+
+  return new TokenLine(shift(line.start), shift(line.end), tokens);
+}
+
 const binaryNumberRegex = /^[-+]?0b[01]+$/;
 const hexNumberRegex = /^[-+]?0x[0-9a-fA-F]+$/;
 const decimalNumberRegex = /^[+-]?(\.\d+|\d+(\.\d+)?|\d+[eE][+-]?\d+)[fF.]?$/;
@@ -262,15 +262,17 @@ export class StringToken extends TextToken {
 }
 
 export class NumberToken extends TextToken {
-  value: number;
-
   constructor(
     public start: ParserPosition,
     public end: ParserPosition,
-    public content: string
+    public content: string,
+    /**
+     * The parsed value of the number, which takes into account formats that
+     * `Number()` doesn't support, like `-0x10` and `1f`.
+     */
+    public value = Number(content)
   ) {
     super();
-    this.value = Number(content);
   }
 }
 
@@ -142,7 +142,7 @@ export function convertToNumberedJumps(doc: MlogDocument): TextEdit[] {
   return edits;
 }
 
-function getStartOfInstructionLine(doc: MlogDocument, node: SyntaxNode) {
+export function getStartOfInstructionLine(doc: MlogDocument, node: SyntaxNode) {
   const { start } = node;
   const line = doc.getText(
     Range.create(start.line, 0, start.line, start.character)
@@ -158,7 +158,7 @@ function getStartOfInstructionLine(doc: MlogDocument, node: SyntaxNode) {
   return Position.create(start.line, start.character - spaceCount);
 }
 
-function getEndOfInstructionLine(doc: MlogDocument, node: SyntaxNode) {
+export function getEndOfInstructionLine(doc: MlogDocument, node: SyntaxNode) {
   const { end } = node;
 
   const lineSegment = doc.getText(
@@ -1,32 +1,100 @@
 import {
   type Connection,
+  DidChangeWatchedFilesNotification,
+  FileChangeType,
+  type FormattingOptions,
   type InitializeResult,
-  Range,
+  type WorkspaceDocumentDiagnosticReport,
+  DocumentDiagnosticReportKind,
   TextDocumentSyncKind,
   TextDocuments,
-  TextEdit,
 } from "vscode-languageserver";
 import { MlogDocument } from "./document";
 import { CommandCode, TokenModifiers, TokenTypes } from "./lsp/protocol";
-import { formatCode } from "./lsp/formatter";
+import {
+  FormatOptions,
+  getFormattingEdits,
+  getOnTypeFormattingEdits,
+} from "./lsp/formatter";
 import { getColorPresentations, getDocumentColors } from "./lsp/color";
 import { getCompletions } from "./lsp/completions";
 import { getCodeActions } from "./lsp/code_actions";
 import { executeCommand } from "./lsp/command";
 import { getDefinitions, getReferences } from "./lsp/references";
+import { getDocumentHighlights } from "./lsp/document_highlight";
+import {
+  getIncomingCalls,
+  getOutgoingCalls,
+  prepareCallHierarchy,
+} from "./lsp/call_hierarchy";
 import { getSelectedSyntaxNode } from "./lsp/common";
 import { getRenameEdits, getRenamePreparation } from "./lsp/rename";
 import { getDocumentSymbols } from "./lsp/document_symbol";
-import { getDocumentDiagnostics } from "./lsp/diagnostics";
+import {
+  DiagnosticReportCache,
+  getDocumentDiagnostics,
+} from "./lsp/diagnostics";
 import { getFoldingRanges } from "./lsp/folding";
-import { getSemanticTokens } from "./lsp/semantic_tokens";
+import { getSelectionRanges } from "./lsp/selection_range";
+import { SemanticTokensCache, getSemanticTokens } from "./lsp/semantic_tokens";
+import { getInlayHints } from "./lsp/inlay_hints";
+import { getCodeLenses } from "./lsp/code_lens";
+import { ConfigCache, configFileName } from "./config";
+import { WorkspaceSymbolIndex } from "./lsp/workspace_symbol";
+
+export {
+  startDebugAdapter,
+  type DebugAdapter,
+  type DebugAdapterOptions,
+} from "./debug/adapter";
+export type { LaunchArguments, ProtocolMessage } from "./debug/protocol";
 
 export interface LanguageServerOptions {
   connection: Connection;
+  /**
+   * Reads the contents of a file, returning `undefined` if it doesn't exist.
+   * Used to load the `mlogls.json` configuration files, which are ignored when
+   * this is not provided.
+   */
+  readFile?: (uri: string) => Promise<string | undefined>;
+  /**
+   * Lists the uris of the mlog files inside of a workspace folder. Used to
+   * index the workspace symbols of files that are not open, only open documents
+   * are indexed when this is not provided.
+   */
+  findFiles?: (folderUri: string) => Promise<string[]>;
 }
 
+/** How long to wait after the last change before pushing diagnostics. */
+const diagnosticsDelay = 200;
+
 export function startServer(options: LanguageServerOptions) {
-  const { connection } = options;
+  const {
+    connection,
+    readFile = () => Promise.resolve(undefined),
+    findFiles = () => Promise.resolve([]),
+  } = options;
+
+  const configs = new ConfigCache(readFile, (uri, message) => {
+    void connection.window.showErrorMessage(
+      `Invalid configuration file ${uri}: ${message}`
+    );
+  });
+
+  const symbolIndex = new WorkspaceSymbolIndex();
+  const semanticTokens = new SemanticTokensCache();
+  const diagnosticReports = new DiagnosticReportCache();
+  const pendingValidations = new Map<string, ReturnType<typeof setTimeout>>();
+
+  let canWatchFiles = false;
+  let pullDiagnostics = false;
+  let canRefreshDiagnostics = false;
+  let workspaceFolders: string[] = [];
+  /**
+   * The mlog files of the workspace, kept up to date by the file watcher so
+   * that the workspace isn't searched on every request.
+   */
+  let workspaceFiles: Set<string> | undefined;
 
   const documents = new TextDocuments({
     create(uri, languageId, version, content) {
@@ -38,7 +106,20 @@ export function startServer(options: LanguageServerOptions) {
     },
   });
 
-  connection.onInitialize(() => {
+  connection.onInitialize((params) => {
+    canWatchFiles =
+      !!params.capabilities.workspace?.didChangeWatchedFiles
+        ?.dynamicRegistration;
+    pullDiagnostics = !!params.capabilities.textDocument?.diagnostic;
+    canRefreshDiagnostics =
+      !!params.capabilities.workspace?.diagnostics?.refreshSupport;
+
+    if (params.workspaceFolders) {
+      workspaceFolders = params.workspaceFolders.map((folder) => folder.uri);
+    } else if (params.rootUri) {
+      workspaceFolders = [params.rootUri];
+    }
+
     const result: InitializeResult = {
       capabilities: {
         textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -51,7 +132,10 @@ export function startServer(options: LanguageServerOptions) {
         colorProvider: true,
         semanticTokensProvider: {
           documentSelector: null,
-          full: true,
+          full: {
+            delta: true,
+          },
+          range: true,
           legend: {
             tokenTypes: TokenTypes.keys,
             tokenModifiers: TokenModifiers.keys,
@@ -61,29 +145,165 @@ export function startServer(options: LanguageServerOptions) {
           triggerCharacters: [" "],
         },
         documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        documentOnTypeFormattingProvider: {
+          firstTriggerCharacter: ":",
+          moreTriggerCharacter: ["\n"],
+        },
         codeActionProvider: true,
         executeCommandProvider: {
           commands: Object.values(CommandCode),
         },
         definitionProvider: true,
         referencesProvider: true,
+        documentHighlightProvider: true,
+        callHierarchyProvider: true,
         renameProvider: {
           prepareProvider: true,
         },
         documentSymbolProvider: true,
+        workspaceSymbolProvider: true,
         foldingRangeProvider: true,
+        selectionRangeProvider: true,
         hoverProvider: true,
+        inlayHintProvider: true,
+        codeLensProvider: {
+          resolveProvider: false,
+        },
       },
     };
 
+    if (pullDiagnostics) {
+      result.capabilities.diagnosticProvider = {
+        interFileDependencies: false,
+        workspaceDiagnostics: true,
+      };
+    }
+
     return result;
   });
 
+  connection.onInitialized(() => {
+    void indexWorkspace();
+
+    if (!canWatchFiles) return;
+
+    void connection.client.register(DidChangeWatchedFilesNotification.type, {
+      watchers: [
+        { globPattern: `**/${configFileName}` },
+        { globPattern: "**/*.mlog" },
+      ],
+    });
+  });
+
+  connection.onDidChangeWatchedFiles((params) => {
+    let configChanged = false;
+
+    for (const change of params.changes) {
+      if (change.uri.endsWith(configFileName)) {
+        configChanged = true;
+        continue;
+      }
+
+      if (change.type === FileChangeType.Created) {
+        workspaceFiles?.add(change.uri);
+      } else if (change.type === FileChangeType.Deleted) {
+        workspaceFiles?.delete(change.uri);
+      }
+
+      // the stored reports of closed files are reused
+      // until the watcher reports a change
+      diagnosticReports.delete(change.uri);
+
+      // open documents are indexed as they are edited
+      if (documents.get(change.uri)) continue;
+
+      if (change.type === FileChangeType.Deleted) {
+        symbolIndex.delete(change.uri);
+      } else {
+        void indexFile(change.uri);
+      }
+    }
+
+    if (!configChanged) return;
+
+    configs.clear();
+
+    if (pullDiagnostics) {
+      if (canRefreshDiagnostics) {
+        void connection.languages.diagnostics.refresh();
+      }
+      return;
+    }
+
+    for (const doc of documents.all()) {
+      void validateDocument(doc);
+    }
+  });
+
+  connection.languages.diagnostics.on(async (params) => {
+    const doc = await getDiagnosedDocument(params.textDocument.uri);
+    if (!doc) return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+
+    return diagnosticReports.getReport(doc, params.previousResultId);
+  });
+
+  connection.languages.diagnostics.onWorkspace(async (params) => {
+    const previousResultIds = new Map(
+      params.previousResultIds.map(({ uri, value }) => [uri, value])
+    );
+    const items: WorkspaceDocumentDiagnosticReport[] = [];
+
+    for (const uri of await findWorkspaceFiles()) {
+      const previousResultId = previousResultIds.get(uri);
+
+      // closed files only need to be read again after they change
+      if (canWatchFiles && !documents.get(uri)) {
+        const config = await configs.getConfig(uri);
+        const report = diagnosticReports.getStoredReport(
+          uri,
+          config,
+          previousResultId
+        );
+
+        if (report) {
+          items.push({ uri, version: null, ...report });
+          continue;
+        }
+      }
+
+      const doc = await getDiagnosedDocument(uri);
+      if (!doc) continue;
+
+      items.push({
+        uri,
+        version: documents.get(uri)?.version ?? null,
+        ...diagnosticReports.getReport(doc, previousResultId),
+      });
+    }
+
+    return { items };
+  });
+
   connection.languages.semanticTokens.on((params) => {
     const doc = documents.get(params.textDocument.uri);
     if (!doc) return { data: [] };
 
-    return { data: getSemanticTokens(doc) };
+    return semanticTokens.getTokens(doc);
+  });
+
+  connection.languages.semanticTokens.onDelta((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return { edits: [] };
+
+    return semanticTokens.getTokensDelta(doc, params.previousResultId);
+  });
+
+  connection.languages.semanticTokens.onRange((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return { data: [] };
+
+    return { data: getSemanticTokens(doc, params.range) };
   });
 
   connection.onDocumentColor((params) => {
@@ -121,22 +341,29 @@ export function startServer(options: LanguageServerOptions) {
     return node.provideSignatureHelp(position.character);
   });
 
-  connection.onDocumentFormatting((params) => {
+  connection.onDocumentFormatting(async (params) => {
     const doc = documents.get(params.textDocument.uri);
     if (!doc) return;
     if (doc.nodes.length === 0) return;
-    const { options } = params;
 
-    const formattedCode = formatCode({
-      unit: doc.unit,
-      insertSpaces: options.insertSpaces,
-      tabSize: options.tabSize,
-      insertFinalNewline: options.insertFinalNewline,
-    });
+    const options = await getFormatOptions(doc, params.options);
+    return getFormattingEdits(doc, options);
+  });
 
-    return [
-      TextEdit.replace(Range.create(0, 0, doc.lineCount, 0), formattedCode),
-    ];
+  connection.onDocumentRangeFormatting(async (params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return;
+
+    const options = await getFormatOptions(doc, params.options);
+    return getFormattingEdits(doc, options, params.range);
+  });
+
+  connection.onDocumentOnTypeFormatting(async (params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return;
+
+    const options = await getFormatOptions(doc, params.options);
+    return getOnTypeFormattingEdits(doc, options, params.position, params.ch);
   });
 
   connection.onCodeAction((params) => {
@@ -171,6 +398,34 @@ export function startServer(options: LanguageServerOptions) {
     return getReferences(doc, params.position);
   });
 
+  connection.onDocumentHighlight((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return;
+
+    return getDocumentHighlights(doc, params.position);
+  });
+
+  connection.languages.callHierarchy.onPrepare((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return null;
+
+    return prepareCallHierarchy(doc, params.position) ?? null;
+  });
+
+  connection.languages.callHierarchy.onIncomingCalls((params) => {
+    const doc = documents.get(params.item.uri);
+    if (!doc) return null;
+
+    return getIncomingCalls(doc, params.item);
+  });
+
+  connection.languages.callHierarchy.onOutgoingCalls((params) => {
+    const doc = documents.get(params.item.uri);
+    if (!doc) return null;
+
+    return getOutgoingCalls(doc, params.item);
+  });
+
   connection.onRenameRequest((params) => {
     const doc = documents.get(params.textDocument.uri);
     if (!doc) return;
@@ -199,6 +454,10 @@ export function startServer(options: LanguageServerOptions) {
     return getDocumentSymbols(doc);
   });
 
+  connection.onWorkspaceSymbol((params) => {
+    return symbolIndex.search(params.query);
+  });
+
   connection.onFoldingRanges((params) => {
     const doc = documents.get(params.textDocument.uri);
     if (!doc) return;
@@ -206,6 +465,27 @@ export function startServer(options: LanguageServerOptions) {
     return getFoldingRanges(doc);
   });
 
+  connection.onSelectionRanges((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return [];
+
+    return getSelectionRanges(doc, params.positions);
+  });
+
+  connection.onCodeLens((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return [];
+
+    return getCodeLenses(doc);
+  });
+
+  connection.languages.inlayHint.on((params) => {
+    const doc = documents.get(params.textDocument.uri);
+    if (!doc) return [];
+
+    return getInlayHints(doc, params.range);
+  });
+
   connection.onHover((params) => {
     const doc = documents.get(params.textDocument.uri);
 
@@ -220,18 +500,131 @@ export function startServer(options: LanguageServerOptions) {
     return node.provideHover(doc.unit, params.position.character);
   });
 
-  documents.onDidChangeContent(async (change) => {
-    const doc = documents.get(change.document.uri);
-    if (!doc) return;
+  /** Merges the formatting options of the client with the configuration file. */
+  async function getFormatOptions(
+    doc: MlogDocument,
+    options: FormattingOptions
+  ): Promise<FormatOptions> {
+    doc.config = await configs.getConfig(doc.uri);
+    const { formatter } = doc.config;
+
+    return {
+      unit: doc.unit,
+      insertSpaces: formatter.insertSpaces ?? options.insertSpaces,
+      tabSize: formatter.tabSize ?? options.tabSize,
+      insertFinalNewline:
+        formatter.insertFinalNewline ?? options.insertFinalNewline,
+      alignComments: formatter.alignComments,
+      alignParameters: formatter.alignParameters,
+      splitStatements: formatter.splitStatements,
+      blankLinesBetweenScopes: formatter.blankLinesBetweenScopes,
+      maxBlankLines: formatter.maxBlankLines,
+    };
+  }
 
+  async function validateDocument(doc: MlogDocument) {
+    const config = await configs.getConfig(doc.uri);
+
+    // the document may have been closed while the configuration was loading
+    if (documents.get(doc.uri) !== doc) return;
+
+    doc.config = config;
     const diagnostics = getDocumentDiagnostics(doc);
 
     await connection.sendDiagnostics({ uri: doc.uri, diagnostics });
+  }
+
+  async function findWorkspaceFiles(): Promise<Iterable<string>> {
+    if (workspaceFiles) return workspaceFiles;
+
+    const uris = new Set<string>();
+
+    for (const folder of workspaceFolders) {
+      for (const uri of await findFiles(folder)) {
+        uris.add(uri);
+      }
+    }
+
+    // without a file watcher, files can be created or deleted unnoticed
+    if (canWatchFiles) workspaceFiles = uris;
+
+    return uris;
+  }
+
+  async function indexWorkspace() {
+    // index the files one at a time to avoid
+    // keeping all of them in memory at once
+    for (const uri of await findWorkspaceFiles()) {
+      if (documents.get(uri)) continue;
+
+      await indexFile(uri);
+    }
+  }
+
+  /**
+   * Returns the open document with the given uri, or reads it from the disk if
+   * it isn't open. The configuration of the document is loaded as well.
+   */
+  async function getDiagnosedDocument(uri: string) {
+    let doc = documents.get(uri);
+
+    if (!doc) {
+      const content = await readFile(uri);
+      if (content === undefined) return;
+
+      doc = new MlogDocument(uri, "mlog", 0, content);
+    }
+
+    doc.config = await configs.getConfig(uri);
+    return doc;
+  }
+
+  /** Pushes the diagnostics of a document once it stops changing. */
+  function scheduleValidation(doc: MlogDocument) {
+    clearTimeout(pendingValidations.get(doc.uri));
+
+    const timeout = setTimeout(() => {
+      pendingValidations.delete(doc.uri);
+      void validateDocument(doc);
+    }, diagnosticsDelay);
+
+    pendingValidations.set(doc.uri, timeout);
+  }
+
+  async function indexFile(uri: string) {
+    const content = await readFile(uri);
+
+    if (content === undefined) {
+      symbolIndex.delete(uri);
+    } else {
+      symbolIndex.updateFile(uri, content);
+    }
+  }
+
+  documents.onDidChangeContent((change) => {
+    const doc = documents.get(change.document.uri);
+    if (!doc) return;
+
+    symbolIndex.update(doc);
+
+    // clients that pull diagnostics request them after each change
+    if (!pullDiagnostics) scheduleValidation(doc);
   });
 
   documents.onDidClose(async (e) => {
     const { document } = e;
 
+    semanticTokens.delete(document.uri);
+    diagnosticReports.delete(document.uri);
+
+    // the closed document may have had unsaved changes
+    await indexFile(document.uri);
+
+    clearTimeout(pendingValidations.get(document.uri));
+    pendingValidations.delete(document.uri);
+
+    if (pullDiagnostics) return;
+
     // remove existing warnings and error messages
     // since each file is standalone
     await connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
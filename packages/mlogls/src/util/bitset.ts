@@ -7,6 +7,8 @@ export interface ReadonlyBitSet {
   and(other: ReadonlyBitSet): BitSet;
 
   clone(): BitSet;
+
+  equals(other: ReadonlyBitSet): boolean;
 }
 
 export class BitSet implements ReadonlyBitSet {
@@ -40,6 +42,17 @@ export class BitSet implements ReadonlyBitSet {
     this.buffer[word] ^= 1 << bit;
   }
 
+  fill(value: boolean) {
+    this.buffer.fill(value ? -1 : 0);
+
+    // keep the bits after the length unset
+    // so that equality checks are not affected by them
+    const extraBits = this.length & 31;
+    if (value && extraBits !== 0) {
+      this.buffer[this.buffer.length - 1] = (1 << extraBits) - 1;
+    }
+  }
+
   assignOr(other: BitSet): void {
     for (let i = 0; i < this.buffer.length; i++) {
       this.buffer[i] = this.buffer[i] | other.buffer[i];
@@ -73,4 +86,13 @@ export class BitSet implements ReadonlyBitSet {
     result.buffer.set(this.buffer);
     return result;
   }
+
+  equals(other: BitSet): boolean {
+    if (this.length !== other.length) return false;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      if (this.buffer[i] !== other.buffer[i]) return false;
+    }
+    return true;
+  }
 }
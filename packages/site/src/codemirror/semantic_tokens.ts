@@ -79,7 +79,10 @@ class TokenView {
 }
 
 class SemanticTokensPlugin implements PluginValue {
-  tokenData = new Int32Array();
+  tokenData: Int32Array = new Int32Array();
+
+  /** The id of the current token data, used to request only the changes. */
+  resultId: string | undefined;
 
   private intialized = false;
 
@@ -159,9 +162,29 @@ class SemanticTokensPlugin implements PluginValue {
     const semanticTokensProvider =
       client.serverCapabilities?.semanticTokensProvider;
 
-    if (!semanticTokensProvider) return [];
+    if (!semanticTokensProvider) return new Int32Array();
 
     client.sync();
+
+    const { full } = semanticTokensProvider;
+    const supportsDelta = typeof full === "object" && full.delta;
+
+    if (supportsDelta && this.resultId !== undefined) {
+      const result = await client.request<
+        LSP.SemanticTokensDeltaParams,
+        LSP.SemanticTokens | LSP.SemanticTokensDelta | null
+      >("textDocument/semanticTokens/full/delta", {
+        textDocument: { uri: plugin.uri },
+        previousResultId: this.resultId,
+      });
+
+      this.resultId = result?.resultId;
+      if (!result) return new Int32Array();
+      if ("data" in result) return new Int32Array(result.data);
+
+      return applyTokenEdits(this.tokenData, result.edits);
+    }
+
     const result = await client.request<
       LSP.SemanticTokensParams,
       LSP.SemanticTokens | null
@@ -169,7 +192,8 @@ class SemanticTokensPlugin implements PluginValue {
       textDocument: { uri: plugin.uri },
     });
 
-    return result?.data ?? [];
+    this.resultId = result?.resultId;
+    return new Int32Array(result?.data ?? []);
   }
 
   private queueRequest() {
@@ -184,7 +208,7 @@ class SemanticTokensPlugin implements PluginValue {
     if (this.intialized && plugin.unsyncedChanges.empty) return;
     this.intialized = true;
 
-    this.tokenData = new Int32Array(await this.requestSemanticTokens());
+    this.tokenData = await this.requestSemanticTokens();
     const decorations = semanticTokensToDecorations(
       this.lspPlugin,
       this.view.state,
@@ -201,6 +225,24 @@ class SemanticTokensPlugin implements PluginValue {
   }
 }
 
+function applyTokenEdits(
+  data: Int32Array,
+  edits: LSP.SemanticTokensEdit[]
+): Int32Array {
+  if (edits.length === 0) return data;
+
+  const result = Array.from(data);
+
+  // apply the edits from the end so that the
+  // start of the remaining edits is still valid
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  for (const edit of sorted) {
+    result.splice(edit.start, edit.deleteCount, ...(edit.data ?? []));
+  }
+
+  return new Int32Array(result);
+}
+
 function createRecord<T extends Record<string, unknown>>(type: T) {
   return Object.fromEntries(
     Object.keys(type).map((key) => [key, -1])
@@ -273,7 +315,7 @@ export function semanticTokensExtension(): LSPClientExtension {
         formats: ["relative"],
         augmentsSyntaxTokens: true,
         requests: {
-          full: true,
+          full: { delta: true },
           range: false,
         },
         tokenModifiers: Object.keys(LSP.SemanticTokenModifiers),